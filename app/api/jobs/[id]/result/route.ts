@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { getJobQueue } from "@/lib/job-queue"
+import { jobNotFound } from "@/lib/simulation-api"
+import type { SimulationErrorResponse } from "@/lib/types"
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Results of a completed job, in the same form as POST /api/simulate returns them
+export async function GET(_request: Request, { params }: JobRouteContext) {
+  const { id } = await params
+  const queue = getJobQueue()
+  const job = await queue.getJob(id)
+  if (!job) {
+    return NextResponse.json(jobNotFound(id), { status: 404 })
+  }
+
+  const result = job.status === "completed" ? await queue.getResult(id) : null
+  if (!result) {
+    const body: SimulationErrorResponse = {
+      code: "job_not_finished",
+      error: job.error ?? `Job ${id} is ${job.status}; only completed jobs have results.`,
+    }
+    return NextResponse.json(body, { status: 409 })
+  }
+
+  return NextResponse.json(result)
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getJobQueue } from "@/lib/job-queue"
+import { jobNotFound } from "@/lib/simulation-api"
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Status and progress of a job
+export async function GET(_request: Request, { params }: JobRouteContext) {
+  const { id } = await params
+  const job = await getJobQueue().getJob(id)
+  return job ? NextResponse.json(job) : NextResponse.json(jobNotFound(id), { status: 404 })
+}
+
+// Cancel a queued or running job, or discard a finished one
+export async function DELETE(_request: Request, { params }: JobRouteContext) {
+  const { id } = await params
+  const job = await getJobQueue().cancel(id)
+  return job ? NextResponse.json(job) : NextResponse.json(jobNotFound(id), { status: 404 })
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getJobQueue } from "@/lib/job-queue"
+import { JOB_BUDGET, readSimulationRequest } from "@/lib/simulation-api"
+
+// Queue a run in the background. Responds at once with the job; poll GET /api/jobs/:id for progress.
+export async function POST(request: Request) {
+  const parsed = await readSimulationRequest(request, JOB_BUDGET)
+  if ("error" in parsed) {
+    return NextResponse.json(parsed.error, { status: 400 })
+  }
+
+  const job = await getJobQueue().submit(parsed.params)
+  return NextResponse.json(job, { status: 202 })
+}
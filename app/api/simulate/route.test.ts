@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+
+import { ENGINE_VERSION } from "@/lib/engine"
+import { SIMULATE_BUDGET, STREAM_BUDGET } from "@/lib/simulation-api"
+import { defaultFormValues } from "@/lib/simulation-schema"
+import type { SimulationErrorResponse, SimulationParams, SimulationResult, SimulationStreamMessage } from "@/lib/types"
+import { POST } from "./route"
+import { POST as streamPOST } from "./stream/route"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const params: SimulationParams = {
+  ...defaults,
+  nSimulations: 2,
+  nObservations: 200,
+  nCurrencies: 2,
+  extremeEventDuration: 10,
+  assets: [],
+}
+
+function request(body: unknown): Request {
+  return new Request("http://localhost/api/simulate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  })
+}
+
+async function errorOf(response: Response): Promise<SimulationErrorResponse> {
+  expect(response.status).toBe(400)
+  return response.json()
+}
+
+describe("POST /api/simulate", () => {
+  it("runs the simulation and records the engine", async () => {
+    const response = await POST(request(params))
+    expect(response.status).toBe(200)
+
+    const result: SimulationResult = await response.json()
+    expect(result.params).toEqual(params)
+    expect(result.simulations).toHaveLength(2)
+    expect(result.simulations[0].prices).toHaveLength(2)
+    expect(result.engine).toMatchObject({ engine: "server", version: ENGINE_VERSION })
+  })
+
+  it("rejects a body that is not JSON", async () => {
+    expect(await errorOf(await POST(request("{")))).toEqual({
+      code: "invalid_json",
+      error: "The request body is not valid JSON.",
+    })
+  })
+
+  it("reports every invalid field", async () => {
+    const body = await errorOf(await POST(request({ ...params, nSimulations: 0, timeStep: "week", basePrice: "1" })))
+    expect(body.code).toBe("invalid_params")
+    expect(body.issues?.map((issue) => issue.path)).toEqual(["nSimulations", "basePrice", "timeStep"])
+  })
+
+  it("attributes inconsistent fields to the field that configures them", async () => {
+    const body = await errorOf(
+      await POST(request({ ...params, assets: [{ name: "A" }, { name: "B" }, { name: "C" }] })),
+    )
+    expect(body.code).toBe("invalid_params")
+    expect(body.issues).toEqual([
+      { path: "assets", message: "3 assets were configured but the simulation only has 2 currencies." },
+    ])
+  })
+
+  it("rejects unknown keys, including misspelled nested ones", async () => {
+    const body = await errorOf(
+      await POST(request({ ...params, nSimulation: 5, assets: [{ name: "A", intialPrice: 10 }] })),
+    )
+    expect(body.code).toBe("invalid_params")
+    expect(body.issues).toEqual([
+      { path: "assets.0", message: "Unrecognized key(s) in object: 'intialPrice'" },
+      { path: "", message: "Unrecognized key(s) in object: 'nSimulation'" },
+    ])
+  })
+
+  it.each([
+    ["heston", { kapa: 3 }, "Heston Stochastic Volatility: Unrecognized key(s) in object: 'kapa'"],
+    ["gbm", { kappa: 3 }, "Geometric Brownian Motion: Unrecognized key(s) in object: 'kappa'"],
+  ])("rejects %s parameters the model does not take", async (model, modelParams, message) => {
+    const body = await errorOf(await POST(request({ ...params, model, modelParams })))
+    expect(body.code).toBe("invalid_params")
+    expect(body.issues).toEqual([{ path: "modelParams", message }])
+  })
+
+  it("sends runs over its budget to the stream", async () => {
+    // 11 simulations of the longest allowed path
+    const body = await errorOf(
+      await POST(request({ ...params, nSimulations: 11, nObservations: 1_000_000, nCurrencies: 1 })),
+    )
+    expect(body.code).toBe("budget_exceeded")
+    expect(body.error).toContain("this endpoint computes at most 10,000,000")
+    expect(body.error).toContain("stream it from POST /api/simulate/stream")
+  })
+})
+
+describe("POST /api/simulate/stream", () => {
+  it("sends every simulation, then the engine", async () => {
+    const response = await streamPOST(request(params))
+    expect(response.status).toBe(200)
+
+    const messages: SimulationStreamMessage[] = (await response.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+    expect(messages.map((message) => message.type)).toEqual([
+      "start",
+      "progress",
+      "simulation",
+      "progress",
+      "simulation",
+      "progress",
+      "done",
+    ])
+    expect(messages[0]).toMatchObject({ type: "start", engine: { engine: "server", version: ENGINE_VERSION } })
+    expect(messages.at(-1)).toMatchObject({ type: "done", engine: { engine: "server", version: ENGINE_VERSION } })
+  })
+
+  it("accepts runs too large to compute in one request", async () => {
+    const pricePoints = 20 * 1_000_000 * 1
+    expect(pricePoints).toBeGreaterThan(SIMULATE_BUDGET.maxPricePoints)
+    expect(pricePoints).toBeLessThanOrEqual(STREAM_BUDGET.maxPricePoints)
+
+    const response = await streamPOST(
+      request({ ...params, nSimulations: 20, nObservations: 1_000_000, nCurrencies: 1 }),
+    )
+    expect(response.status).toBe(200)
+    // Only the first progress message is computed until the stream is read
+    await response.body?.cancel()
+  })
+})
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { engineSimulations } from "@/lib/engine"
+import { STREAM_BUDGET, readSimulationRequest, serverEngineInfo } from "@/lib/simulation-api"
+import type { SimulationStreamMessage } from "@/lib/types"
+
+// Same request as POST /api/simulate, answered as NDJSON: one SimulationStreamMessage per line,
+// with every simulation sent as soon as it is computed
+export async function POST(request: Request) {
+  const parsed = await readSimulationRequest(request, STREAM_BUDGET)
+  if ("error" in parsed) {
+    return NextResponse.json(parsed.error, { status: 400 })
+  }
+
+  const total = parsed.params.nSimulations
+  const simulations = engineSimulations(parsed.params)
+  const engine = serverEngineInfo()
+  const encoder = new TextEncoder()
+  let completed = 0
+
+  // One simulation per pull, so a slow reader holds back the computation and a disconnect stops it
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      send(controller, { type: "start", engine })
+      send(controller, { type: "progress", completed, total })
+    },
+    pull(controller) {
+      try {
+        const next = simulations.next()
+        if (next.done) {
+          send(controller, { type: "done", engine })
+          controller.close()
+          return
+        }
+        send(controller, { type: "simulation", index: completed, simulation: next.value })
+        completed++
+        send(controller, { type: "progress", completed, total })
+      } catch (error) {
+        console.error("Simulation error:", error)
+        const message = error instanceof Error ? error.message : "Failed to run simulation"
+        send(controller, { type: "error", error: { code: "simulation_failed", error: message } })
+        controller.close()
+      }
+    },
+    cancel() {
+      simulations.return()
+    },
+  })
+
+  function send(controller: ReadableStreamDefaultController<Uint8Array>, message: SimulationStreamMessage) {
+    controller.enqueue(encoder.encode(`${JSON.stringify(message)}\n`))
+  }
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+  })
+}
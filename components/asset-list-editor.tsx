@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect } from "react"
+
+import { Input } from "@/components/ui/input"
+import { paletteColor, resizeAssets } from "@/lib/assets"
+import type { AssetConfig } from "@/lib/types"
+
+interface AssetListEditorProps {
+  nCurrencies: number
+  value: AssetConfig[]
+  onChange: (value: AssetConfig[]) => void
+}
+
+export function AssetListEditor({ nCurrencies, value, onChange }: AssetListEditorProps) {
+  // Keep one row per currency
+  useEffect(() => {
+    if (value.length !== nCurrencies) {
+      onChange(resizeAssets(value, nCurrencies))
+    }
+  }, [value, nCurrencies, onChange])
+
+  function update(index: number, patch: Partial<AssetConfig>) {
+    onChange(value.map((asset, i) => (i === index ? { ...asset, ...patch } : asset)))
+  }
+
+  // Empty optional inputs mean "no override"
+  function parseOptional(raw: string): number | undefined {
+    return raw === "" ? undefined : Number(raw)
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((asset, i) => (
+        <div key={i} className="space-y-2 rounded-md border border-slate-700 p-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              aria-label={`${asset.name} color`}
+              value={asset.color ?? paletteColor(i)}
+              onChange={(e) => update(i, { color: e.target.value })}
+              className="h-8 w-8 shrink-0 cursor-pointer rounded border border-slate-700 bg-slate-900"
+            />
+            <Input
+              aria-label="Asset name"
+              value={asset.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              className="h-8 bg-slate-900"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              type="number"
+              step="any"
+              aria-label={`${asset.name} initial price`}
+              placeholder="Price"
+              value={asset.initialPrice ?? ""}
+              onChange={(e) => update(i, { initialPrice: parseOptional(e.target.value) })}
+              className="h-8 bg-slate-900 text-xs"
+            />
+            <Input
+              type="number"
+              step="any"
+              aria-label={`${asset.name} drift`}
+              placeholder="Drift"
+              value={asset.drift ?? ""}
+              onChange={(e) => update(i, { drift: parseOptional(e.target.value) })}
+              className="h-8 bg-slate-900 text-xs"
+            />
+            <Input
+              type="number"
+              step="any"
+              aria-label={`${asset.name} volatility`}
+              placeholder="Vol %"
+              value={asset.volatility ?? ""}
+              onChange={(e) => update(i, { volatility: parseOptional(e.target.value) })}
+              className="h-8 bg-slate-900 text-xs"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { format } from "date-fns"
+import { Clock, FolderOpen, Loader2, Square, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import {
+  JOB_POLL_INTERVAL_MS,
+  cancelJob,
+  fetchJob,
+  fetchJobResult,
+  isJobActive,
+  loadTrackedJobs,
+  saveTrackedJobs,
+  submitJob,
+} from "@/lib/jobs"
+import { formSchema, formatSchemaError, type SimulationFormValues } from "@/lib/simulation-schema"
+import { useSimulationStore } from "@/lib/simulation-store"
+import type { JobStatus, SimulationJob, SimulationResult } from "@/lib/types"
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+}
+
+interface BackgroundJobsProps {
+  getValues: () => SimulationFormValues
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export function BackgroundJobs({ getValues }: BackgroundJobsProps) {
+  const { recordRun } = useSimulationStore()
+  const [jobs, setJobs] = useState<SimulationJob[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  // Latest jobs for the polling timer, which outlives renders
+  const jobsRef = useRef(jobs)
+  jobsRef.current = jobs
+
+  const track = (next: SimulationJob[]) => {
+    saveTrackedJobs(next.map((job) => job.id))
+    jobsRef.current = next
+    setJobs(next)
+  }
+
+  // Pick up the jobs submitted before the page was last closed. Ones the server has forgotten are dropped.
+  // Jobs submitted while they load are kept, newest first.
+  useEffect(() => {
+    Promise.all(loadTrackedJobs().map(fetchJob))
+      .then((found) => {
+        const known = new Set(jobsRef.current.map((job) => job.id))
+        const loaded = found.filter((job): job is SimulationJob => job !== null && !known.has(job.id))
+        track([...jobsRef.current, ...loaded].sort((a, b) => b.createdAt - a.createdAt))
+      })
+      .catch((error) => console.error("Failed to load background jobs:", error))
+  }, [])
+
+  const hasActiveJobs = jobs.some(isJobActive)
+
+  useEffect(() => {
+    if (!hasActiveJobs) return
+
+    const poll = async () => {
+      const active = jobsRef.current.filter(isJobActive)
+      try {
+        const updates = await Promise.all(active.map((job) => fetchJob(job.id)))
+        const byId = new Map(active.map((job, i) => [job.id, updates[i]]))
+        track(
+          jobsRef.current.flatMap((job) => {
+            if (!byId.has(job.id)) return [job]
+            const update = byId.get(job.id)
+            return update ? [update] : []
+          }),
+        )
+        updates.forEach((update) => {
+          if (update?.status === "completed") {
+            toast.success("Background job completed", {
+              description: `${update.total} simulations are ready.`,
+              action: { label: "Open", onClick: () => openJob(update) },
+            })
+          }
+        })
+      } catch (error) {
+        console.error("Failed to poll background jobs:", error)
+      }
+    }
+
+    const timer = setInterval(poll, JOB_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs])
+
+  const submit = async () => {
+    const parsed = formSchema.safeParse(getValues())
+    if (!parsed.success) {
+      toast.error("Fix the invalid parameters before submitting a job", {
+        description: formatSchemaError(parsed.error),
+      })
+      return
+    }
+
+    // Jobs always run on the server's TypeScript engine
+    const { engine, ...params } = parsed.data
+    setSubmitting(true)
+    try {
+      const job = await submitJob(params)
+      track([job, ...jobsRef.current])
+      toast.success("Job submitted", { description: "It keeps running on the server if you leave this page." })
+    } catch (error) {
+      console.error("Failed to submit the job:", error)
+      toast.error("Could not submit the job", { description: errorMessage(error) })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // Stop an active job, or discard a finished one together with its result on the server
+  const dismiss = async (job: SimulationJob) => {
+    try {
+      await cancelJob(job.id)
+      if (isJobActive(job)) {
+        const update = await fetchJob(job.id)
+        track(jobsRef.current.flatMap((j) => (j.id !== job.id ? [j] : update ? [update] : [])))
+      } else {
+        track(jobsRef.current.filter((j) => j.id !== job.id))
+      }
+    } catch (error) {
+      console.error("Failed to cancel the job:", error)
+      toast.error("Could not cancel the job", { description: errorMessage(error) })
+    }
+  }
+
+  // Show a completed job's results and move them into the run history
+  const openJob = async (job: SimulationJob) => {
+    let results: SimulationResult
+    try {
+      results = await fetchJobResult(job.id)
+    } catch (error) {
+      console.error("Failed to load the job results:", error)
+      toast.error("Could not load the job results", { description: errorMessage(error) })
+      return
+    }
+
+    recordRun(results, "server")
+      .then(() => dismiss(job))
+      .catch((error) => {
+        console.error("Failed to save the run:", error)
+        toast.warning("Run not saved to history", { description: errorMessage(error) })
+      })
+  }
+
+  return (
+    <Card className="mt-6 bg-slate-800 border-slate-700">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Background Jobs</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Button type="button" variant="outline" className="w-full" disabled={submitting} onClick={submit}>
+          {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Clock className="mr-2 h-4 w-4" />}
+          Run in Background
+        </Button>
+        {jobs.length === 0 && (
+          <p className="text-xs text-slate-400">
+            Large runs can be queued on the server and collected later, even after closing this page.
+          </p>
+        )}
+        {jobs.map((job) => (
+          <div key={job.id} className="space-y-1 rounded-md border border-slate-700 px-2 py-1.5">
+            <div className="flex items-center gap-1">
+              <span className="flex-1 truncate text-sm">
+                {format(job.createdAt, "MMM d, HH:mm")} · {job.total} sims
+              </span>
+              {job.status === "completed" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  title="Open the results"
+                  onClick={() => openJob(job)}
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 hover:text-red-400"
+                title={isJobActive(job) ? "Cancel" : "Dismiss"}
+                onClick={() => dismiss(job)}
+              >
+                {isJobActive(job) ? <Square className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              </Button>
+            </div>
+            {isJobActive(job) && <Progress value={(job.completed / job.total) * 100} className="h-2 bg-slate-900" />}
+            <p className={`text-xs ${job.status === "failed" ? "text-red-400" : "text-slate-400"}`}>
+              {STATUS_LABELS[job.status]}
+              {isJobActive(job) && ` · ${job.completed}/${job.total}`}
+              {job.error && ` · ${job.error}`}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { LineChart, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { calibrate, calibratedFormValues, parseCandles, type Calibration } from "@/lib/calibration"
+import type { SimulationFormValues } from "@/lib/simulation-schema"
+import { formatNumber } from "@/lib/utils"
+
+interface CalibrationDialogProps {
+  getValues: () => SimulationFormValues
+  onApply: (values: SimulationFormValues) => void
+}
+
+// Asset name from a file name such as "BTC-USD_1d.csv"
+function assetName(fileName: string): string {
+  return fileName.replace(/\.[^.]*$/, "").split(/[-_ ]/)[0] || fileName
+}
+
+export function CalibrationDialog({ getValues, onApply }: CalibrationDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [calibration, setCalibration] = useState<Calibration | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const jumps = calibration?.jumps
+
+  const onUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])]
+    // Clear the input so choosing the same files again still fires a change
+    event.target.value = ""
+    if (files.length === 0) return
+
+    try {
+      const series = await Promise.all(
+        files.map(async (file) => ({
+          name: assetName(file.name),
+          candles: parseCandles(await file.text(), file.name),
+        })),
+      )
+      setCalibration(calibrate(series))
+      setError(null)
+    } catch (e) {
+      setCalibration(null)
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const apply = () => {
+    if (!calibration) return
+    onApply(calibratedFormValues(calibration, getValues()))
+    setOpen(false)
+    toast.success(`Calibrated ${calibration.assets.length} assets`, {
+      description: "Drift, volatility and starting prices are set per asset.",
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <LineChart className="mr-2 h-4 w-4" /> Calibrate from Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl bg-slate-800 border-slate-700 text-slate-50">
+        <DialogHeader>
+          <DialogTitle>Calibrate from Historical Data</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Upload one CSV of candles per asset with timestamp, open, high, low, close and volume columns. Only
+            timestamps present in every file are used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" /> Choose CSV files...
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            multiple
+            className="hidden"
+            onChange={onUpload}
+          />
+
+          {error && <p className="whitespace-pre-line text-sm text-red-400">{error}</p>}
+
+          {calibration && (
+            <>
+              <div className="grid grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-slate-400">Time Step</div>
+                  <div className="font-semibold capitalize">{calibration.timeStep}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Shared Candles</div>
+                  <div className="font-semibold">{calibration.observations}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Gaps</div>
+                  <div className={`font-semibold ${calibration.gaps > 0 ? "text-amber-400" : ""}`}>
+                    {calibration.gaps}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Jumps (Merton)</div>
+                  <div className="font-semibold">
+                    {jumps ? (
+                      <>
+                        {formatNumber(jumps.lambda)}/yr, {formatNumber(jumps.mean * 100)}% ±{" "}
+                        {formatNumber(jumps.std * 100)}%
+                      </>
+                    ) : (
+                      "None (GBM)"
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto rounded-md border border-slate-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-900 text-slate-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Asset</th>
+                      <th className="px-3 py-2 text-right font-medium">Drift</th>
+                      <th className="px-3 py-2 text-right font-medium">Volatility</th>
+                      <th className="px-3 py-2 text-right font-medium">Range Vol.</th>
+                      <th className="px-3 py-2 text-right font-medium">Jumps</th>
+                      <th className="px-3 py-2 text-right font-medium">Skew</th>
+                      <th className="px-3 py-2 text-right font-medium">Ex. Kurtosis</th>
+                      <th className="px-3 py-2 text-right font-medium">KS (5% crit.)</th>
+                      <th className="px-3 py-2 text-right font-medium">AC(r)</th>
+                      <th className="px-3 py-2 text-right font-medium">AC(r²)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calibration.assets.map((asset, c) => {
+                      const d = asset.diagnostics
+                      return (
+                        <tr key={c} className="border-t border-slate-700">
+                          <td className="px-3 py-1">{asset.name}</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(asset.drift * 100)}%</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(asset.volatility * 100)}%</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(asset.rangeVolatility * 100)}%</td>
+                          <td className="px-3 py-1 text-right">{asset.jumps}</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(d.skewness)}</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(d.excessKurtosis)}</td>
+                          <td className={`px-3 py-1 text-right ${d.ksDistance > d.ksCritical ? "text-amber-400" : ""}`}>
+                            {formatNumber(d.ksDistance)} ({formatNumber(d.ksCritical)})
+                          </td>
+                          <td className="px-3 py-1 text-right">{formatNumber(d.autocorrelation)}</td>
+                          <td className="px-3 py-1 text-right">{formatNumber(d.squaredAutocorrelation)}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-400">
+                Volatility excludes jumps, which are returns more than four robust standard deviations from the median.
+                Amber KS distances reject normal returns at 5%; a high AC(r²) suggests the GARCH or Heston model fits
+                better.
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" disabled={!calibration} onClick={apply}>
+            Apply to Parameters
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect } from "react"
+
+import { Button } from "@/components/ui/button"
+import { validateCorrelationMatrix } from "@/lib/linear-algebra"
+import type { CorrelationStructure } from "@/lib/types"
+
+interface CorrelationMatrixEditorProps {
+  label: string
+  nCurrencies: number
+  assetNames: string[]
+  value: CorrelationStructure | undefined
+  // Equicorrelated structure implied by the scalar variance/covariance parameters
+  defaultStructure: CorrelationStructure
+  onChange: (value: CorrelationStructure | undefined) => void
+}
+
+export function CorrelationMatrixEditor({
+  label,
+  nCurrencies,
+  assetNames,
+  value,
+  defaultStructure,
+  onChange,
+}: CorrelationMatrixEditorProps) {
+  // Keep a custom matrix in step with the number of currencies
+  useEffect(() => {
+    if (value && value.variances.length !== nCurrencies) {
+      onChange(resizeStructure(value, nCurrencies, defaultStructure))
+    }
+  }, [value, nCurrencies, defaultStructure, onChange])
+
+  if (!value || value.variances.length !== nCurrencies) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-slate-400">
+          {label} draws use the scalar variance and covariance above (equal correlation between every pair).
+        </p>
+        <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => onChange(defaultStructure)}>
+          Customize {label.toLowerCase()} matrix
+        </Button>
+      </div>
+    )
+  }
+
+  let error: string | null = null
+  try {
+    validateCorrelationMatrix(value.correlation, nCurrencies, `${label} correlation matrix`)
+    value.variances.forEach((variance, i) => {
+      if (!Number.isFinite(variance) || variance < 0) {
+        throw new Error(`${label} variance of ${assetNames[i]} must be a non-negative number.`)
+      }
+    })
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  function setVariance(i: number, variance: number) {
+    onChange({ ...value!, variances: value!.variances.map((v, k) => (k === i ? variance : v)) })
+  }
+
+  // Edits are mirrored so the matrix stays symmetric
+  function setCorrelation(i: number, j: number, rho: number) {
+    const correlation = value!.correlation.map((row) => [...row])
+    correlation[i][j] = rho
+    correlation[j][i] = rho
+    onChange({ ...value!, correlation })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th />
+              {Array.from({ length: nCurrencies }).map((_, j) => (
+                <th key={j} className="px-1 pb-1 font-medium text-slate-400">
+                  <span className="block w-14 truncate" title={assetNames[j]}>
+                    {assetNames[j]}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.correlation.map((row, i) => (
+              <tr key={i}>
+                <th className="pr-1 font-medium text-slate-400">
+                  <span className="block max-w-20 truncate text-left" title={assetNames[i]}>
+                    {assetNames[i]}
+                  </span>
+                </th>
+                {row.map((rho, j) => (
+                  <td key={j} className="p-0.5">
+                    <input
+                      type="number"
+                      step={0.05}
+                      min={-1}
+                      max={1}
+                      value={rho}
+                      disabled={i === j}
+                      onChange={(e) => setCorrelation(i, j, Number(e.target.value))}
+                      className="w-14 rounded border border-slate-700 bg-slate-900 px-1 py-0.5 text-right disabled:opacity-50"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <th className="pr-1 pt-2 font-medium text-slate-400">Var</th>
+              {value.variances.map((variance, i) => (
+                <td key={i} className="p-0.5 pt-2">
+                  <input
+                    type="number"
+                    step="any"
+                    min={0}
+                    value={variance}
+                    onChange={(e) => setVariance(i, Number(e.target.value))}
+                    className="w-14 rounded border border-slate-700 bg-slate-900 px-1 py-0.5 text-right"
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => onChange(undefined)}>
+        Use scalar covariance
+      </Button>
+    </div>
+  )
+}
+
+// Grow or shrink a structure to n currencies, filling new entries from the fallback
+function resizeStructure(
+  structure: CorrelationStructure,
+  n: number,
+  fallback: CorrelationStructure,
+): CorrelationStructure {
+  return {
+    variances: Array.from({ length: n }, (_, i) => structure.variances[i] ?? fallback.variances[i]),
+    correlation: Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => structure.correlation[i]?.[j] ?? fallback.correlation[i][j]),
+    ),
+  }
+}
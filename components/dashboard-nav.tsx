@@ -3,7 +3,7 @@
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { BarChart3, Home, Settings, TrendingUp, Activity } from "lucide-react"
-import { Button } from "@/components/ui/button"
+import { ExportMenu } from "@/components/export-menu"
 
 export function DashboardNav() {
   const pathname = usePathname()
@@ -56,9 +56,7 @@ export function DashboardNav() {
         ))}
       </nav>
       <div className="mt-auto p-4 border-t">
-        <Button variant="outline" className="w-full">
-          Export Results
-        </Button>
+        <ExportMenu className="w-full" />
       </div>
     </aside>
   )
@@ -0,0 +1,242 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import type { ChartConfiguration } from "chart.js"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  FAN_PERCENTILES,
+  eventFrequencies,
+  extremeEventFraction,
+  finalReturns,
+  histogram,
+  percentile,
+  priceFan,
+} from "@/lib/analytics"
+import { getAssetColor, getAssetName } from "@/lib/assets"
+import { chartAxis, chartTooltip, timeAxis, timeSeries, useChart } from "@/lib/charts"
+import type { Histogram } from "@/lib/analytics"
+import type { SimulationResult } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+interface DistributionAnalyticsProps {
+  results: SimulationResult
+}
+
+function histogramChart(data: Histogram, label: string, color: string, format: (x: number) => string) {
+  const config: ChartConfiguration = {
+    type: "bar",
+    data: {
+      labels: data.counts.map((_, i) => format((data.edges[i] + data.edges[i + 1]) / 2)),
+      datasets: [{ label: "Simulations", data: data.counts, backgroundColor: color, barPercentage: 1, categoryPercentage: 1 }],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: { legend: { display: false }, tooltip: chartTooltip },
+      scales: { x: chartAxis(label), y: chartAxis("Simulations") },
+    },
+  }
+  return config
+}
+
+export function DistributionAnalytics({ results }: DistributionAnalyticsProps) {
+  const [currency, setCurrency] = useState(0)
+  const nCurrencies = results.simulations[0]?.prices.length ?? 0
+  // The chosen currency may no longer exist after a run with fewer currencies
+  const selectedCurrency = currency < nCurrencies ? currency : 0
+
+  const returns = useMemo(() => finalReturns(results, selectedCurrency), [results, selectedCurrency])
+  const sortedReturns = useMemo(() => [...returns].sort((a, b) => a - b), [returns])
+  const eventFraction = extremeEventFraction(results)
+  const frequencies = useMemo(() => eventFrequencies(results), [results])
+
+  const fanConfig = useMemo<ChartConfiguration>(() => {
+    const { time, percentiles } = priceFan(results, selectedCurrency)
+    const [p5, p25, p50, p75, p95] = percentiles
+    const band = (label: string, data: number[], fill: string | false, alpha: number) => ({
+      label,
+      data: timeSeries(time, data),
+      borderWidth: 0,
+      pointRadius: 0,
+      backgroundColor: getAssetColor(results.params, selectedCurrency, alpha),
+      fill,
+    })
+
+    return {
+      type: "line",
+      data: {
+        // Each upper edge fills down to the dataset before it, giving a 5-95 and a 25-75 band
+        datasets: [
+          band("5th percentile", p5, false, 0),
+          band("95th percentile", p95, "-1", 0.15),
+          band("25th percentile", p25, false, 0),
+          band("75th percentile", p75, "-1", 0.3),
+          {
+            label: "Median",
+            data: timeSeries(time, p50),
+            borderColor: getAssetColor(results.params, selectedCurrency),
+            borderWidth: 2,
+            pointRadius: 0,
+            tension: 0.1,
+            fill: false,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: false },
+          tooltip: chartTooltip,
+        },
+        scales: { x: timeAxis(time), y: chartAxis("Price") },
+      },
+    }
+  }, [results, selectedCurrency])
+
+  const returnsConfig = useMemo(
+    () =>
+      histogramChart(
+        histogram(returns.map((r) => r * 100)),
+        "Final Return (%)",
+        getAssetColor(results.params, selectedCurrency, 0.6),
+        (x) => x.toFixed(1),
+      ),
+    [returns, results.params, selectedCurrency],
+  )
+
+  const volatilityConfig = useMemo(
+    () =>
+      histogramChart(
+        histogram(results.simulations.map((sim) => sim.realizedVolatility[selectedCurrency])),
+        "Realized Volatility (%)",
+        getAssetColor(results.params, selectedCurrency, 0.6),
+        (x) => x.toFixed(1),
+      ),
+    [results, selectedCurrency],
+  )
+
+  const fanRef = useChart(fanConfig)
+  const returnsRef = useChart(returnsConfig)
+  const volatilityRef = useChart(volatilityConfig)
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Price Distribution</CardTitle>
+          <div className="w-48">
+            <Select value={selectedCurrency.toString()} onValueChange={(value) => setCurrency(Number(value))}>
+              <SelectTrigger className="bg-slate-900 border-slate-700">
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {Array.from({ length: nCurrencies }).map((_, i) => (
+                  <SelectItem key={i} value={i.toString()}>
+                    {getAssetName(results.params, i)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-400">
+            Shaded bands span the {FAN_PERCENTILES[0]}th–{FAN_PERCENTILES[4]}th and {FAN_PERCENTILES[1]}th–
+            {FAN_PERCENTILES[3]}th percentiles across {results.simulations.length} simulations; the line is the median.
+          </p>
+          <div className="h-[400px] w-full">
+            <canvas ref={fanRef} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-3 gap-6">
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>Final Return</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="text-sm font-medium text-slate-400">Median</div>
+              <div className="mt-1 text-xl font-semibold">{formatNumber(percentile(sortedReturns, 50) * 100)}%</div>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-slate-400">5th / 95th Percentile</div>
+              <div className="mt-1 text-xl font-semibold">
+                {formatNumber(percentile(sortedReturns, 5) * 100)}% / {formatNumber(percentile(sortedReturns, 95) * 100)}%
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>Extreme Events</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="text-sm font-medium text-slate-400">Runs with an Event</div>
+              <div className="mt-1 text-xl font-semibold">{formatNumber(eventFraction * 100)}%</div>
+            </div>
+            <div className="space-y-1">
+              <div className="text-sm font-medium text-slate-400">Fired vs. Configured Probability</div>
+              {frequencies.map((event, i) => (
+                <div key={i} className="flex justify-between gap-2 text-sm">
+                  <span className="truncate">{event.name}</span>
+                  <span className="shrink-0 text-slate-400">
+                    {formatNumber(event.fraction * 100)}% / {formatNumber(event.probability * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>Simulations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="text-sm font-medium text-slate-400">Paths</div>
+              <div className="mt-1 text-xl font-semibold">{results.simulations.length}</div>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-slate-400">Profitable Paths</div>
+              <div className="mt-1 text-xl font-semibold">
+                {formatNumber((returns.filter((r) => r > 0).length / returns.length) * 100)}%
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>Final Returns of {getAssetName(results.params, selectedCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[250px] w-full">
+              <canvas ref={returnsRef} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>Realized Volatility of {getAssetName(results.params, selectedCurrency)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[250px] w-full">
+              <canvas ref={volatilityRef} />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect } from "react"
+import { Plus, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EVENT_DECAY_SHAPES, resizeEvents } from "@/lib/events"
+import type { EventConfig, EventDecayShape } from "@/lib/types"
+
+interface EventScenarioEditorProps {
+  nCurrencies: number
+  assetNames: string[]
+  value: EventConfig[] | undefined
+  // Single event implied by the extreme event parameters, used as the first scenario event
+  defaultEvent: EventConfig
+  onChange: (value: EventConfig[] | undefined) => void
+}
+
+export function EventScenarioEditor({
+  nCurrencies,
+  assetNames,
+  value,
+  defaultEvent,
+  onChange,
+}: EventScenarioEditorProps) {
+  // Keep every event's mean shocks in step with the number of currencies
+  useEffect(() => {
+    if (value?.some((event) => event.meanShocks.length !== nCurrencies)) {
+      onChange(resizeEvents(value, nCurrencies))
+    }
+  }, [value, nCurrencies, onChange])
+
+  if (!value) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-slate-400">
+          A single event with the probability and duration above and a mean shock of -0.1 (log-return), decaying
+          exponentially.
+        </p>
+        <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => onChange([defaultEvent])}>
+          Customize event scenario
+        </Button>
+      </div>
+    )
+  }
+
+  function update(index: number, patch: Partial<EventConfig>) {
+    onChange(value!.map((event, i) => (i === index ? { ...event, ...patch } : event)))
+  }
+
+  function setShock(index: number, currency: number, shock: number) {
+    update(index, { meanShocks: value![index].meanShocks.map((s, c) => (c === currency ? shock : s)) })
+  }
+
+  function addEvent() {
+    onChange([...value!, { ...defaultEvent, name: `Event ${value!.length + 1}` }])
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((event, i) => (
+        <div key={i} className="space-y-2 rounded-md border border-slate-700 p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Event name"
+              value={event.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              className="h-8 bg-slate-900"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              title="Remove event"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(value.filter((_, k) => k !== i))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1 text-xs text-slate-400">
+              <span>Probability</span>
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                max={1}
+                value={event.probability}
+                onChange={(e) => update(i, { probability: Number(e.target.value) })}
+                className="h-8 bg-slate-900 text-xs"
+              />
+            </label>
+            <label className="space-y-1 text-xs text-slate-400">
+              <span>Start</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="Random"
+                value={event.start ?? ""}
+                onChange={(e) => update(i, { start: e.target.value === "" ? undefined : Number(e.target.value) })}
+                className="h-8 bg-slate-900 text-xs"
+              />
+            </label>
+            <label className="space-y-1 text-xs text-slate-400">
+              <span>Duration</span>
+              <Input
+                type="number"
+                min={1}
+                value={event.duration}
+                onChange={(e) => update(i, { duration: Number(e.target.value) })}
+                className="h-8 bg-slate-900 text-xs"
+              />
+            </label>
+          </div>
+
+          <Select value={event.decay} onValueChange={(decay) => update(i, { decay: decay as EventDecayShape })}>
+            <SelectTrigger className="h-8 bg-slate-900 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EVENT_DECAY_SHAPES).map(([id, label]) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="space-y-1">
+            <div className="text-xs text-slate-400">Mean shock (log-return)</div>
+            <div className="grid grid-cols-3 gap-2">
+              {event.meanShocks.map((shock, c) => (
+                <label key={c} className="space-y-1 text-xs text-slate-400">
+                  <span className="block truncate">{assetNames[c]}</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={shock}
+                    onChange={(e) => setShock(i, c, Number(e.target.value))}
+                    className="h-8 bg-slate-900 text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={addEvent}>
+          <Plus className="mr-1 h-3 w-3" /> Add event
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => onChange(undefined)}>
+          Use single event
+        </Button>
+      </div>
+    </div>
+  )
+}
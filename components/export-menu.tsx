@@ -0,0 +1,99 @@
+"use client"
+
+import { useRef, type ChangeEvent } from "react"
+import { Download, FileArchive, FileJson, FileSpreadsheet, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { exportBundle, importBundle, jsonLines, longCsv } from "@/lib/export"
+import { useSimulationStore } from "@/lib/simulation-store"
+import type { SimulationResult } from "@/lib/types"
+import { downloadFile } from "@/lib/utils"
+
+interface ExportMenuProps {
+  className?: string
+}
+
+function baseName(results: SimulationResult): string {
+  return `simulation-seed-${results.params.randomSeed}`
+}
+
+export function ExportMenu({ className }: ExportMenuProps) {
+  const results = useSimulationStore((state) => state.results)
+  const setResults = useSimulationStore((state) => state.setResults)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const onImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so choosing the same file again still fires a change
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = importBundle(new Uint8Array(await file.arrayBuffer()))
+      setResults(imported)
+      toast.success(`Loaded ${imported.simulations.length} simulations from ${file.name}`)
+    } catch (error) {
+      toast.error(`Could not import ${file.name}`, {
+        description: error instanceof Error ? error.message : String(error),
+        // Schema errors list one issue per line
+        classNames: { description: "whitespace-pre-line" },
+      })
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className={className}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Results
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700 text-slate-50">
+          <DropdownMenuLabel>Export</DropdownMenuLabel>
+          <DropdownMenuItem
+            disabled={!results}
+            onSelect={() =>
+              results && downloadFile(exportBundle(results), "application/zip", `${baseName(results)}.zip`)
+            }
+          >
+            <FileArchive />
+            Bundle (.zip)
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!results}
+            onSelect={() => results && downloadFile(longCsv(results), "text/csv", `${baseName(results)}.csv`)}
+          >
+            <FileSpreadsheet />
+            Long-format CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!results}
+            onSelect={() =>
+              results && downloadFile(jsonLines(results), "application/x-ndjson", `${baseName(results)}.jsonl`)
+            }
+          >
+            <FileJson />
+            JSON Lines
+          </DropdownMenuItem>
+          <DropdownMenuSeparator className="bg-slate-700" />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import bundle...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={onImport} />
+    </>
+  )
+}
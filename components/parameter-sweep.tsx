@@ -0,0 +1,374 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import type { ChartConfiguration } from "chart.js"
+import { Play, Square } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { chartAxis, chartTooltip, useChart } from "@/lib/charts"
+import { ENGINE_LABELS } from "@/lib/engine"
+import { SimulationCancelledError } from "@/lib/python-simulation"
+import { runOnEngine } from "@/lib/simulation"
+import { useSimulationStore } from "@/lib/simulation-store"
+import {
+  SWEEP_METRICS,
+  SWEEP_PARAMETERS,
+  axisValues,
+  runSweep,
+  sweepMetric,
+  validateSweep,
+  type SimulationRunner,
+  type SweepAxis,
+  type SweepMetricId,
+  type SweepParameter,
+  type SweepPoint,
+} from "@/lib/sweep"
+import type { EngineInfo, SimulationParams, SimulationResult } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+interface ParameterSweepProps {
+  results: SimulationResult
+}
+
+const PARAMETER_IDS = Object.keys(SWEEP_PARAMETERS) as SweepParameter[]
+
+// Half to one and a half times the current value, within the bounds the form accepts
+function defaultAxis(parameter: SweepParameter, params: SimulationParams): SweepAxis {
+  const { min, max, integer } = SWEEP_PARAMETERS[parameter]
+  const value = params[parameter]
+  const round = (x: number) => (integer ? Math.round(x) : Number(x.toPrecision(4)))
+  return {
+    parameter,
+    min: value > 0 ? round(Math.max(min, value / 2)) : min,
+    max: value > 0 ? round(Math.min(max, value * 1.5)) : max,
+    steps: 5,
+  }
+}
+
+function formatValue(value: number): string {
+  return Number(value.toPrecision(4)).toString()
+}
+
+function AxisEditor({
+  title,
+  axis,
+  params,
+  onChange,
+}: {
+  title: string
+  axis: SweepAxis
+  params: SimulationParams
+  onChange: (axis: SweepAxis) => void
+}) {
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-slate-400">{title}</Label>
+        <Select
+          value={axis.parameter}
+          onValueChange={(value) => onChange(defaultAxis(value as SweepParameter, params))}
+        >
+          <SelectTrigger className="bg-slate-900 border-slate-700">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {PARAMETER_IDS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {SWEEP_PARAMETERS[id].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {(["min", "max", "steps"] as const).map((key) => (
+        <div key={key} className="space-y-1">
+          <Label className="text-xs text-slate-400">{key === "min" ? "From" : key === "max" ? "To" : "Steps"}</Label>
+          <Input
+            type="number"
+            step="any"
+            value={axis[key]}
+            onChange={(event) => onChange({ ...axis, [key]: Number(event.target.value) })}
+            className="bg-slate-900"
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Blue shading from the lowest to the highest value on the grid
+function cellColor(value: number, min: number, max: number): string {
+  const t = max > min ? (value - min) / (max - min) : 0.5
+  return `rgba(59, 130, 246, ${(0.1 + 0.8 * t).toFixed(2)})` // blue-500
+}
+
+export function ParameterSweep({ results }: ParameterSweepProps) {
+  const { selectedEngine, pythonEngineStatus, setPythonEngineStatus } = useSimulationStore()
+  const [xAxis, setXAxis] = useState(() => defaultAxis("volatility", results.params))
+  const [yAxis, setYAxis] = useState<SweepAxis | null>(null)
+  const [nSimulations, setNSimulations] = useState(Math.min(results.params.nSimulations, 50))
+  const [metric, setMetric] = useState<SweepMetricId>("median-final-return")
+  const [lossThreshold, setLossThreshold] = useState(20)
+  const [sweep, setSweep] = useState<{ axes: SweepAxis[]; points: SweepPoint[]; engine?: EngineInfo } | null>(null)
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null)
+  const [sweepError, setSweepError] = useState<string | null>(null)
+  const abortController = useRef<AbortController | null>(null)
+
+  const axes = yAxis ? [xAxis, yAxis] : [xAxis]
+  const validationError = validateSweep(axes)
+  const gridSize = axes.reduce((size, axis) => size * Math.max(1, Math.floor(axis.steps) || 1), 1)
+
+  // Python only waits for Pyodide when it is selected; otherwise the selected engine runs right away
+  const waitsForPython = selectedEngine === "python" && pythonEngineStatus === "loading"
+
+  async function onRun() {
+    // The engine selected in the sidebar, with the same fallbacks. Every point runs on the same
+    // engine, so the first result says which one it was.
+    const usesPython = selectedEngine === "python" && pythonEngineStatus === "ready"
+    let engine: EngineInfo | undefined
+    const run: SimulationRunner = async (params, signal) => {
+      const result = await runOnEngine(params, selectedEngine, { signal })
+      engine ??= result.engine
+      return result
+    }
+
+    const controller = new AbortController()
+    abortController.current = controller
+    setSweepError(null)
+    setProgress({ completed: 0, total: gridSize })
+    try {
+      const points = await runSweep({ ...results.params, nSimulations }, axes, run, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      })
+      setSweep({ axes, points, engine })
+      if (engine?.fallback) {
+        toast.warning(`Swept on ${ENGINE_LABELS[engine.engine]} instead of ${ENGINE_LABELS[engine.fallback.from]}`, {
+          description: engine.fallback.reason,
+        })
+      }
+    } catch (error) {
+      if (error instanceof SimulationCancelledError) {
+        // Cancelling a Python run discards the worker, so Pyodide has to be loaded again
+        if (usesPython) setPythonEngineStatus("loading")
+      } else {
+        console.error("Error running parameter sweep:", error)
+        setSweepError(error instanceof Error ? error.message : String(error))
+      }
+    } finally {
+      abortController.current = null
+      setProgress(null)
+    }
+  }
+
+  const values = useMemo(
+    () => sweep?.points.map((point) => sweepMetric(point, metric, lossThreshold / 100)) ?? [],
+    [sweep, metric, lossThreshold],
+  )
+
+  // One-parameter sweeps are drawn as a line; two-parameter sweeps as a heatmap table below
+  const lineConfig = useMemo<ChartConfiguration | null>(() => {
+    if (!sweep || sweep.axes.length !== 1) return null
+    return {
+      type: "line",
+      data: {
+        labels: sweep.points.map((point) => formatValue(point.x)),
+        datasets: [
+          {
+            label: SWEEP_METRICS[metric],
+            data: values,
+            borderColor: "#3b82f6", // blue-500
+            backgroundColor: "#3b82f6",
+            borderWidth: 2,
+            tension: 0.1,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: { legend: { display: false }, tooltip: chartTooltip },
+        scales: {
+          x: chartAxis(SWEEP_PARAMETERS[sweep.axes[0].parameter].label),
+          y: chartAxis(SWEEP_METRICS[metric]),
+        },
+      },
+    }
+  }, [sweep, metric, values])
+  const lineRef = useChart(lineConfig)
+
+  const isRunning = progress !== null
+  const xs = sweep ? axisValues(sweep.axes[0]) : []
+  const ys = sweep?.axes[1] ? axisValues(sweep.axes[1]) : []
+  const [minValue, maxValue] = [Math.min(...values), Math.max(...values)]
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle>Parameter Sweep</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-400">
+            Reruns the current parameters (seed {results.params.randomSeed}) at every grid point, so points differ only
+            in the swept parameters. Outcomes are for an equal-weight portfolio of all currencies.
+          </p>
+
+          <AxisEditor title="Parameter" axis={xAxis} params={results.params} onChange={setXAxis} />
+          {yAxis ? (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <AxisEditor title="Second Parameter" axis={yAxis} params={results.params} onChange={setYAxis} />
+              </div>
+              <Button variant="outline" onClick={() => setYAxis(null)}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() =>
+                setYAxis(
+                  defaultAxis(PARAMETER_IDS.find((id) => id !== xAxis.parameter) ?? "volatility", results.params),
+                )
+              }
+            >
+              Add Second Parameter
+            </Button>
+          )}
+
+          <div className="grid grid-cols-4 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-400">Simulations per Point</Label>
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={nSimulations}
+                onChange={(event) => setNSimulations(Math.max(1, Math.round(Number(event.target.value)) || 1))}
+                className="bg-slate-900"
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs text-slate-400">Metric</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as SweepMetricId)}>
+                <SelectTrigger className="bg-slate-900 border-slate-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(SWEEP_METRICS) as SweepMetricId[]).map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {SWEEP_METRICS[id]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {metric === "loss-probability" && (
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-400">Loss Threshold (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={lossThreshold}
+                  onChange={(event) => setLossThreshold(Number(event.target.value))}
+                  className="bg-slate-900"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={onRun}
+              disabled={isRunning || validationError !== null || waitsForPython}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              <Play className="mr-2 h-4 w-4" />
+              {waitsForPython ? "Loading Python Engine..." : `Run ${gridSize} Points`}
+            </Button>
+            {progress && (
+              <>
+                <div className="flex-1 space-y-1">
+                  <Progress value={(progress.completed / progress.total) * 100} className="h-2 bg-slate-900" />
+                  <div className="text-xs text-slate-400">
+                    Point {progress.completed}/{progress.total}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => abortController.current?.abort()}>
+                  <Square className="mr-2 h-3 w-3" /> Cancel
+                </Button>
+              </>
+            )}
+          </div>
+          {validationError && <p className="text-sm text-amber-400">{validationError}</p>}
+          {sweepError && <p className="text-sm text-red-400">{sweepError}</p>}
+        </CardContent>
+      </Card>
+
+      {sweep && (
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle>{SWEEP_METRICS[metric]}</CardTitle>
+            {sweep.engine && (
+              <p className="text-xs text-slate-400">
+                Ran on {ENGINE_LABELS[sweep.engine.engine]} v{sweep.engine.version}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {sweep.axes.length === 1 ? (
+              <div className="h-[350px] w-full">
+                <canvas ref={lineRef} />
+              </div>
+            ) : (
+              <div className="overflow-x-auto rounded-md border border-slate-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-900 text-slate-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">
+                        {SWEEP_PARAMETERS[sweep.axes[1].parameter].label} ↓ /{" "}
+                        {SWEEP_PARAMETERS[sweep.axes[0].parameter].label} →
+                      </th>
+                      {xs.map((x, i) => (
+                        <th key={i} className="px-3 py-2 text-right font-medium">
+                          {formatValue(x)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ys.map((y, row) => (
+                      <tr key={row} className="border-t border-slate-700">
+                        <td className="px-3 py-1 text-slate-400">{formatValue(y)}</td>
+                        {xs.map((_, col) => {
+                          const value = values[row * xs.length + col]
+                          return (
+                            <td
+                              key={col}
+                              className="px-3 py-1 text-right"
+                              style={{ backgroundColor: cellColor(value, minValue, maxValue) }}
+                            >
+                              {formatNumber(value)}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react"
+import { Download, Save, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  BUILT_IN_PRESETS,
+  exportPresets,
+  loadUserPresets,
+  newPreset,
+  parsePresetFile,
+  saveUserPresets,
+  type Preset,
+} from "@/lib/presets"
+import { formSchema, formatSchemaError, type SimulationFormValues } from "@/lib/simulation-schema"
+import { downloadFile } from "@/lib/utils"
+
+interface PresetPickerProps {
+  getValues: () => SimulationFormValues
+  onApply: (values: SimulationFormValues) => void
+}
+
+export function PresetPicker({ getValues, onApply }: PresetPickerProps) {
+  const [userPresets, setUserPresets] = useState<Preset[]>([])
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_PRESETS[0].id)
+  const [name, setName] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Local storage only exists in the browser, so saved presets are read after mounting
+  useEffect(() => {
+    setUserPresets(loadUserPresets())
+  }, [])
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets]
+  const selected = presets.find((preset) => preset.id === selectedId)
+
+  const updateUserPresets = (next: Preset[]) => {
+    try {
+      saveUserPresets(next)
+      setUserPresets(next)
+    } catch (error) {
+      toast.error("Could not save presets", { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find((p) => p.id === id)
+    if (!preset) return
+    setSelectedId(id)
+    onApply(preset.values)
+  }
+
+  const savePreset = () => {
+    const parsed = formSchema.safeParse(getValues())
+    if (!parsed.success) {
+      toast.error("Fix the invalid parameters before saving a preset", {
+        description: formatSchemaError(parsed.error),
+      })
+      return
+    }
+
+    const preset = newPreset(name, parsed.data)
+    updateUserPresets([...userPresets, preset])
+    setSelectedId(preset.id)
+    setName("")
+    toast.success(`Saved preset "${preset.name}"`)
+  }
+
+  const deletePreset = () => {
+    if (!selected || selected.builtIn) return
+    updateUserPresets(userPresets.filter((p) => p.id !== selected.id))
+    setSelectedId(BUILT_IN_PRESETS[0].id)
+  }
+
+  const onImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so choosing the same file again still fires a change
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = parsePresetFile(await file.text())
+      updateUserPresets([...userPresets, ...imported])
+      toast.success(`Imported ${imported.length} presets from ${file.name}`)
+    } catch (error) {
+      toast.error(`Could not import ${file.name}`, {
+        description: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Presets</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Select value={selected ? selectedId : undefined} onValueChange={applyPreset}>
+            <SelectTrigger className="bg-slate-900">
+              <SelectValue placeholder="Select a preset" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Scenarios</SelectLabel>
+                {BUILT_IN_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {userPresets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {userPresets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          {selected?.description && <p className="text-xs text-slate-400">{selected.description}</p>}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                // Keep Enter from submitting the simulation form
+                event.preventDefault()
+                if (name.trim()) savePreset()
+              }
+            }}
+            placeholder="Save current as..."
+            maxLength={60}
+            className="bg-slate-900"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            title="Save preset"
+            disabled={!name.trim()}
+            onClick={savePreset}
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={!selected || selected.builtIn}
+            onClick={deletePreset}
+          >
+            <Trash2 className="mr-1 h-3 w-3" /> Delete
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="mr-1 h-3 w-3" /> Import
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={userPresets.length === 0}
+            onClick={() => downloadFile(exportPresets(userPresets), "application/json", "simulation-presets.json")}
+          >
+            <Download className="mr-1 h-3 w-3" /> Export
+          </Button>
+        </div>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onImport} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useMemo, useState } from "react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getAssetColor, getAssetName } from "@/lib/assets"
+import { CONFIDENCE_LEVELS, aggregateRisk, defaultRiskOptions, simulationRisk } from "@/lib/risk"
+import type { AggregateRiskMetrics, RiskMetrics, SimulationResult } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+interface RiskMetricsPanelProps {
+  results: SimulationResult
+  selectedSimulation: number
+}
+
+type Scope = "simulation" | "all"
+
+// Ratios are infinite when a path never draws down or never has a losing period
+function formatRatio(value: number): string {
+  return Number.isFinite(value) ? formatNumber(value) : "—"
+}
+
+function formatPercent(value: number): string {
+  return Number.isFinite(value) ? `${formatNumber(value * 100)}%` : "—"
+}
+
+export function RiskMetricsPanel({ results, selectedSimulation }: RiskMetricsPanelProps) {
+  const [confidenceLevel, setConfidenceLevel] = useState(defaultRiskOptions.confidenceLevel)
+  const [scope, setScope] = useState<Scope>("simulation")
+  const options = useMemo(() => ({ ...defaultRiskOptions, confidenceLevel }), [confidenceLevel])
+
+  // Aggregating runs every simulation, so only do it when that scope is shown
+  const report = useMemo(() => {
+    if (scope === "all") return aggregateRisk(results, options)
+    return results.simulations[selectedSimulation] ? simulationRisk(results, selectedSimulation, options) : null
+  }, [results, selectedSimulation, scope, options])
+  if (!report) return null
+
+  const rows: { label: string; color: string; metrics: RiskMetrics | AggregateRiskMetrics }[] = [
+    ...report.currencies.map((metrics, i) => ({
+      label: getAssetName(results.params, i),
+      color: getAssetColor(results.params, i),
+      metrics,
+    })),
+    { label: "Equal-weight portfolio", color: "#f8fafc", metrics: report.portfolio }, // slate-50
+  ]
+  const level = `${Math.round(confidenceLevel * 100)}%`
+
+  return (
+    <Card className="mt-6 bg-slate-800 border-slate-700">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Risk Metrics</CardTitle>
+        <div className="flex gap-2">
+          <div className="w-48">
+            <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+              <SelectTrigger className="bg-slate-900 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                <SelectItem value="simulation">Simulation {selectedSimulation + 1}</SelectItem>
+                <SelectItem value="all">All simulations</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-32">
+            <Select value={confidenceLevel.toString()} onValueChange={(value) => setConfidenceLevel(Number(value))}>
+              <SelectTrigger className="bg-slate-900 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {CONFIDENCE_LEVELS.map((c) => (
+                  <SelectItem key={c} value={c.toString()}>
+                    {Math.round(c * 100)}% VaR
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-400">
+          VaR and CVaR are per sampled period, from the path&apos;s own returns.
+          {scope === "all" &&
+            " Other columns are medians over every simulation; Monte Carlo VaR and CVaR use the spread of horizon returns across simulations."}{" "}
+          The portfolio splits its capital equally across currencies at the start and holds.
+        </p>
+        <div className="overflow-x-auto rounded-md border border-slate-700">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-900 text-slate-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Series</th>
+                <th className="px-3 py-2 text-right font-medium">VaR {level}</th>
+                <th className="px-3 py-2 text-right font-medium">CVaR {level}</th>
+                {scope === "all" && (
+                  <>
+                    <th className="px-3 py-2 text-right font-medium">MC VaR {level}</th>
+                    <th className="px-3 py-2 text-right font-medium">MC CVaR {level}</th>
+                  </>
+                )}
+                <th className="px-3 py-2 text-right font-medium">Max Drawdown</th>
+                <th className="px-3 py-2 text-right font-medium">Drawdown Days</th>
+                <th className="px-3 py-2 text-right font-medium">Return p.a.</th>
+                <th className="px-3 py-2 text-right font-medium">Sharpe</th>
+                <th className="px-3 py-2 text-right font-medium">Sortino</th>
+                <th className="px-3 py-2 text-right font-medium">Calmar</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ label, color, metrics }) => (
+                <tr key={label} className="border-t border-slate-700">
+                  <td className="px-3 py-1">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: color }}></div>
+                      {label}
+                    </div>
+                  </td>
+                  <td className="px-3 py-1 text-right">{formatPercent(metrics.var)}</td>
+                  <td className="px-3 py-1 text-right">{formatPercent(metrics.cvar)}</td>
+                  {"monteCarloVar" in metrics && (
+                    <>
+                      <td className="px-3 py-1 text-right">{formatPercent(metrics.monteCarloVar)}</td>
+                      <td className="px-3 py-1 text-right">{formatPercent(metrics.monteCarloCvar)}</td>
+                    </>
+                  )}
+                  <td className="px-3 py-1 text-right">{formatPercent(metrics.maxDrawdown)}</td>
+                  <td className="px-3 py-1 text-right">{formatNumber(metrics.maxDrawdownDuration * 365)}</td>
+                  <td
+                    className={`px-3 py-1 text-right ${metrics.annualizedReturn >= 0 ? "text-emerald-500" : "text-red-500"}`}
+                  >
+                    {formatPercent(metrics.annualizedReturn)}
+                  </td>
+                  <td className="px-3 py-1 text-right">{formatRatio(metrics.sharpe)}</td>
+                  <td className="px-3 py-1 text-right">{formatRatio(metrics.sortino)}</td>
+                  <td className="px-3 py-1 text-right">{formatRatio(metrics.calmar)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
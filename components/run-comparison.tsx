@@ -0,0 +1,303 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { ChartConfiguration } from "chart.js"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { commonRange, finalReturns, histogram, percentile } from "@/lib/analytics"
+import { getAssetName } from "@/lib/assets"
+import { chartAxis, chartTooltip, useChart } from "@/lib/charts"
+import { diffParams } from "@/lib/compare"
+import { maxDrawdowns } from "@/lib/risk"
+import { loadRunResults } from "@/lib/run-history"
+import { useSimulationStore } from "@/lib/simulation-store"
+import type { RunRecord, SimulationResult } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+const RUN_COLORS = [
+  "rgba(59, 130, 246, 0.55)", // blue-500
+  "rgba(245, 158, 11, 0.55)", // amber-500
+]
+
+interface Metric {
+  label: string
+  axis: string
+  values: (results: SimulationResult, currency: number) => number[] // In percent
+}
+
+const METRICS: Metric[] = [
+  {
+    label: "Final Return",
+    axis: "Final Return (%)",
+    values: (results, currency) => finalReturns(results, currency).map((r) => r * 100),
+  },
+  {
+    label: "Max Drawdown",
+    axis: "Max Drawdown (%)",
+    values: (results, currency) => maxDrawdowns(results, currency).map((d) => d * 100),
+  },
+  {
+    label: "Realized Volatility",
+    axis: "Realized Volatility (%)",
+    values: (results, currency) => results.simulations.map((sim) => sim.realizedVolatility[currency]),
+  },
+]
+
+// Two histograms on shared bins, as shares of each run's simulations so runs of different size compare
+function overlayChart(samples: [number[], number[]], labels: [string, string], axis: string): ChartConfiguration {
+  const range = commonRange(...samples)
+  const histograms = samples.map((values) => histogram(values, 20, range))
+  const { edges } = histograms[0]
+
+  return {
+    type: "bar",
+    data: {
+      labels: histograms[0].counts.map((_, i) => ((edges[i] + edges[i + 1]) / 2).toFixed(1)),
+      datasets: histograms.map((h, k) => ({
+        label: labels[k],
+        data: h.counts.map((count) => (count / samples[k].length) * 100),
+        backgroundColor: RUN_COLORS[k],
+      })),
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      // Bars of both runs share a slot and overlap instead of standing side by side
+      datasets: { bar: { grouped: false, barPercentage: 1, categoryPercentage: 1 } },
+      plugins: { legend: { labels: { color: "#f8fafc" } }, tooltip: chartTooltip }, // slate-50
+      scales: { x: chartAxis(axis), y: chartAxis("Share of Simulations (%)") },
+    },
+  }
+}
+
+function median(values: number[]): number {
+  return percentile(
+    values.filter(Number.isFinite).sort((a, b) => a - b),
+    50,
+  )
+}
+
+function OverlayHistogram({ config, title }: { config: ChartConfiguration; title: string }) {
+  const canvasRef = useChart(config)
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[250px] w-full">
+          <canvas ref={canvasRef} />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function RunSelect({ runs, value, onChange }: { runs: RunRecord[]; value: string; onChange: (id: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-slate-900 border-slate-700">
+        <SelectValue placeholder="Select run" />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-700">
+        {runs.map((run) => (
+          <SelectItem key={run.id} value={run.id}>
+            {run.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function RunComparison() {
+  const { runs, activeRunId } = useSimulationStore()
+  const [selected, setSelected] = useState<[string | null, string | null]>([null, null])
+  const [loaded, setLoaded] = useState<Record<string, SimulationResult>>({})
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const pending = useRef(new Set<string>())
+  const [currency, setCurrency] = useState(0)
+
+  // Default to the run on screen against the most recent other run
+  const defaultA = activeRunId ?? runs[0]?.id ?? null
+  const idA = selected[0] && runs.some((r) => r.id === selected[0]) ? selected[0] : defaultA
+  const idB =
+    selected[1] && runs.some((r) => r.id === selected[1]) ? selected[1] : (runs.find((r) => r.id !== idA)?.id ?? null)
+
+  useEffect(() => {
+    for (const id of [idA, idB]) {
+      if (!id || loaded[id] || pending.current.has(id)) continue
+      pending.current.add(id)
+      setLoadError(null)
+      loadRunResults(id)
+        .then((results) => setLoaded((current) => ({ ...current, [id]: results })))
+        .catch((error) => setLoadError(error instanceof Error ? error.message : String(error)))
+        .finally(() => pending.current.delete(id))
+    }
+  }, [idA, idB, loaded])
+
+  const runA = runs.find((r) => r.id === idA)
+  const runB = runs.find((r) => r.id === idB)
+  const resultsA = idA ? loaded[idA] : undefined
+  const resultsB = idB ? loaded[idB] : undefined
+
+  const nCurrencies = Math.min(resultsA?.params.nCurrencies ?? 0, resultsB?.params.nCurrencies ?? 0)
+  const selectedCurrency = currency < nCurrencies ? currency : 0
+
+  const samples = useMemo(() => {
+    if (!resultsA || !resultsB || nCurrencies === 0) return null
+    return METRICS.map(
+      (metric) =>
+        [metric.values(resultsA, selectedCurrency), metric.values(resultsB, selectedCurrency)] as [number[], number[]],
+    )
+  }, [resultsA, resultsB, nCurrencies, selectedCurrency])
+
+  const configs = useMemo(
+    () =>
+      samples && runA && runB
+        ? samples.map((pair, k) => overlayChart(pair, [runA.label, runB.label], METRICS[k].axis))
+        : null,
+    [samples, runA, runB],
+  )
+
+  const diff = useMemo(() => (runA && runB ? diffParams(runA.params, runB.params) : []), [runA, runB])
+  const differing = diff.filter((row) => row.differs).length
+
+  if (runs.length < 2) {
+    return (
+      <Card className="bg-slate-800 border-slate-700">
+        <CardContent className="p-6 text-center text-slate-400">
+          Compare needs at least two runs in the history. Run another simulation to compare it with this one.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const currencyName = (i: number) => {
+    const a = resultsA ? getAssetName(resultsA.params, i) : ""
+    const b = resultsB ? getAssetName(resultsB.params, i) : ""
+    return a === b ? a : `${a} / ${b}`
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle>Compare Runs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            {[idA, idB].map((id, k) => (
+              <div key={k} className="space-y-1">
+                <div className="flex items-center text-sm font-medium text-slate-400">
+                  <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: RUN_COLORS[k] }}></div>
+                  Run {k === 0 ? "A" : "B"}
+                </div>
+                <RunSelect
+                  runs={runs}
+                  value={id ?? ""}
+                  onChange={(value) => setSelected(k === 0 ? [value, idB] : [idA, value])}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <div className="text-sm font-medium text-slate-400">Currency</div>
+              <Select value={selectedCurrency.toString()} onValueChange={(value) => setCurrency(Number(value))}>
+                <SelectTrigger className="bg-slate-900 border-slate-700">
+                  <SelectValue placeholder="Select currency" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {Array.from({ length: nCurrencies }).map((_, i) => (
+                    <SelectItem key={i} value={i.toString()}>
+                      {currencyName(i)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {loadError && <p className="text-sm text-red-400">{loadError}</p>}
+          {samples ? (
+            <div className="overflow-x-auto rounded-md border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-900 text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Median</th>
+                    <th className="px-3 py-2 text-right font-medium">Run A</th>
+                    <th className="px-3 py-2 text-right font-medium">Run B</th>
+                    <th className="px-3 py-2 text-right font-medium">B − A</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRICS.map((metric, k) => {
+                    const [a, b] = samples[k].map(median)
+                    return (
+                      <tr key={metric.label} className="border-t border-slate-700">
+                        <td className="px-3 py-1">{metric.label}</td>
+                        <td className="px-3 py-1 text-right">{formatNumber(a)}%</td>
+                        <td className="px-3 py-1 text-right">{formatNumber(b)}%</td>
+                        <td className="px-3 py-1 text-right">
+                          {b - a >= 0 ? "+" : ""}
+                          {formatNumber(b - a)} pp
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            !loadError && <p className="text-sm text-slate-400">Loading runs...</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {configs && (
+        <div className="grid grid-cols-3 gap-6">
+          {configs.map((config, k) => (
+            <OverlayHistogram key={METRICS[k].label} config={config} title={METRICS[k].label} />
+          ))}
+        </div>
+      )}
+
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <CardTitle>Parameters</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-400">
+            {differing === 0 ? "Both runs used the same parameters." : `${differing} of ${diff.length} fields differ.`}
+          </p>
+          <div className="overflow-x-auto rounded-md border border-slate-700">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-900 text-slate-400">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Field</th>
+                  <th className="px-3 py-2 text-right font-medium">Run A</th>
+                  <th className="px-3 py-2 text-right font-medium">Run B</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.map((row) => (
+                  <tr
+                    key={row.field}
+                    className={`border-t border-slate-700 ${row.differs ? "bg-amber-500/10 text-amber-300" : ""}`}
+                  >
+                    <td className="px-3 py-1 font-mono text-xs">{row.field}</td>
+                    <td className="max-w-[16rem] truncate px-3 py-1 text-right" title={row.a}>
+                      {row.a}
+                    </td>
+                    <td className="max-w-[16rem] truncate px-3 py-1 text-right" title={row.b}>
+                      {row.b}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
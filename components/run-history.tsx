@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Pencil, Pin, PinOff, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { ENGINE_LABELS } from "@/lib/engine"
+import { formatBytes } from "@/lib/run-history"
+import { useSimulationStore } from "@/lib/simulation-store"
+
+// Report a failed history operation without interrupting the user
+function reportError(action: string) {
+  return (error: unknown) => {
+    console.error(`Failed to ${action}:`, error)
+    toast.error(`Could not ${action}`, { description: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+export function RunHistory() {
+  const { runs, activeRunId, loadRuns, openRun, renameRun, togglePinned, deleteRun } = useSimulationStore()
+  const [editing, setEditing] = useState<{ id: string; label: string } | null>(null)
+
+  useEffect(() => {
+    loadRuns().catch(reportError("load the run history"))
+  }, [loadRuns])
+
+  const commitRename = () => {
+    if (!editing) return
+    const label = editing.label.trim()
+    setEditing(null)
+    if (label) renameRun(editing.id, label).catch(reportError("rename the run"))
+  }
+
+  return (
+    <Card className="mt-6 bg-slate-800 border-slate-700">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Run History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {runs.length === 0 && <p className="text-xs text-slate-400">Finished runs are saved here in your browser.</p>}
+        {runs.map((run) => (
+          <div
+            key={run.id}
+            className={`rounded-md border px-2 py-1.5 ${
+              run.id === activeRunId ? "border-emerald-600 bg-slate-900" : "border-slate-700"
+            }`}
+          >
+            <div className="flex items-center gap-1">
+              {editing?.id === run.id ? (
+                <Input
+                  autoFocus
+                  value={editing.label}
+                  onChange={(event) => setEditing({ id: run.id, label: event.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") commitRename()
+                    if (event.key === "Escape") setEditing(null)
+                  }}
+                  className="h-7 bg-slate-900 text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="flex-1 truncate text-left text-sm hover:text-emerald-400"
+                  title="Open this run"
+                  onClick={() => openRun(run.id).catch(reportError("open the run"))}
+                >
+                  {run.label}
+                </button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                title="Rename"
+                onClick={() => setEditing({ id: run.id, label: run.label })}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className={`h-7 w-7 shrink-0 ${run.pinned ? "text-amber-400" : ""}`}
+                title={run.pinned ? "Unpin" : "Pin, so the run is never removed to free space"}
+                onClick={() => togglePinned(run.id).catch(reportError("pin the run"))}
+              >
+                {run.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 hover:text-red-400"
+                title="Delete"
+                onClick={() => deleteRun(run.id).catch(reportError("delete the run"))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <p className="text-xs text-slate-400">
+              {format(run.createdAt, "MMM d, HH:mm")} · {ENGINE_LABELS[run.engine]} · {run.params.nSimulations} sims ·{" "}
+              {formatBytes(run.sizeBytes)}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,12 +1,25 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Chart, registerables } from "chart.js"
 import { AlertCircle } from "lucide-react"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { DistributionAnalytics } from "@/components/distribution-analytics"
+import { ExportMenu } from "@/components/export-menu"
+import { ParameterSweep } from "@/components/parameter-sweep"
+import { RiskMetricsPanel } from "@/components/risk-metrics"
+import { RunComparison } from "@/components/run-comparison"
+import { StrategyBacktest } from "@/components/strategy-backtest"
+import { VolatilityAnalysis } from "@/components/volatility-analysis"
+import { getAssetColor, getAssetName } from "@/lib/assets"
+import { shadeRanges, timeAxis, timeSeries } from "@/lib/charts"
+import { ENGINE_LABELS } from "@/lib/engine"
+import { eventConfigs } from "@/lib/events"
 import { useSimulationStore } from "@/lib/simulation-store"
+import type { SimulationData, SimulationParams, SimulationResult } from "@/lib/types"
 import { formatNumber } from "@/lib/utils"
 
 // Register Chart.js components
@@ -21,9 +34,12 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
   const chartRef = useRef<HTMLCanvasElement>(null)
   const chartInstance = useRef<Chart | null>(null)
   const results = useSimulationStore((state) => state.results)
+  const [view, setView] = useState<"single" | "distribution" | "compare" | "sweep">("single")
+  // An imported bundle may hold fewer simulations than the one selected before
+  const simulationIndex = results && selectedSimulation < results.simulations.length ? selectedSimulation : 0
 
   useEffect(() => {
-    if (!results || !chartRef.current) return
+    if (!results || view !== "single" || !chartRef.current) return
 
     // Destroy previous chart if it exists
     if (chartInstance.current) {
@@ -35,18 +51,15 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
 
     try {
       // Get the selected simulation data
-      const simData = results.simulations[selectedSimulation]
+      const simData = results.simulations[simulationIndex]
       if (!simData) return
 
-      // Create labels for time steps
-      const labels = Array.from({ length: simData.prices[0].length }, (_, i) => i)
-
       // Create datasets for chart - one for each currency
       const datasets = simData.prices.map((priceSeries, i) => ({
-        label: `Currency ${i + 1}`,
-        data: priceSeries,
-        borderColor: getColorForIndex(i),
-        backgroundColor: getColorForIndex(i, 0.1),
+        label: getAssetName(results.params, i),
+        data: timeSeries(simData.time, priceSeries),
+        borderColor: getAssetColor(results.params, i),
+        backgroundColor: getAssetColor(results.params, i, 0.1),
         borderWidth: 2,
         pointRadius: 0,
         tension: 0.1,
@@ -56,9 +69,10 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
       chartInstance.current = new Chart(ctx, {
         type: "line",
         data: {
-          labels,
           datasets,
         },
+        // Shade the observations each event's shock was spread over
+        plugins: [shadeRanges(eventWindows(results.params, simData), "rgba(239, 68, 68, 0.15)")], // red-500
         options: {
           responsive: true,
           maintainAspectRatio: false,
@@ -97,20 +111,7 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
             },
           },
           scales: {
-            x: {
-              title: {
-                display: true,
-                text: "Time Step",
-                color: "#cbd5e1", // slate-300
-              },
-              grid: {
-                color: "#334155", // slate-700
-                tickColor: "#475569", // slate-600
-              },
-              ticks: {
-                color: "#cbd5e1", // slate-300
-              },
-            },
+            x: timeAxis(simData.time),
             y: {
               title: {
                 display: true,
@@ -138,30 +139,14 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
         chartInstance.current = null
       }
     }
-  }, [results, selectedSimulation])
-
-  // Helper function to generate colors for different currencies
-  function getColorForIndex(index: number, alpha = 1) {
-    const colors = [
-      `rgba(59, 130, 246, ${alpha})`, // blue
-      `rgba(16, 185, 129, ${alpha})`, // emerald
-      `rgba(239, 68, 68, ${alpha})`, // red
-      `rgba(245, 158, 11, ${alpha})`, // amber
-      `rgba(168, 85, 247, ${alpha})`, // purple
-      `rgba(236, 72, 153, ${alpha})`, // pink
-      `rgba(20, 184, 166, ${alpha})`, // teal
-      `rgba(249, 115, 22, ${alpha})`, // orange
-      `rgba(139, 92, 246, ${alpha})`, // violet
-      `rgba(6, 182, 212, ${alpha})`, // cyan
-    ]
-    return colors[index % colors.length]
-  }
+  }, [results, simulationIndex, view])
 
   if (!results) {
     return (
       <div className="h-full flex flex-col">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-bold">Cryptocurrency Market Simulation</h1>
+          <ExportMenu className="bg-slate-800 border-slate-700" />
         </div>
         <Card className="flex-1 bg-slate-800 border-slate-700">
           <CardContent className="flex h-full items-center justify-center p-6">
@@ -179,92 +164,166 @@ export function SimulationResults({ selectedSimulation, onSelectSimulation }: Si
   }
 
   // Get the selected simulation data
-  const simData = results.simulations[selectedSimulation]
+  const simData = results.simulations[simulationIndex]
   const numSimulations = results.simulations.length
+  const windows = eventWindows(results.params, simData)
 
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Cryptocurrency Market Simulation</h1>
 
-        <div className="w-64">
-          <Select
-            value={selectedSimulation.toString()}
-            onValueChange={(value) => onSelectSimulation(Number.parseInt(value))}
-          >
-            <SelectTrigger className="bg-slate-800 border-slate-700">
-              <SelectValue placeholder="Select simulation" />
-            </SelectTrigger>
-            <SelectContent className="bg-slate-800 border-slate-700">
-              {Array.from({ length: numSimulations }).map((_, i) => (
-                <SelectItem key={i} value={i.toString()}>
-                  Simulation {i + 1}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-      </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as typeof view)}>
+          <TabsList className="bg-slate-800">
+            <TabsTrigger value="single">Single Simulation</TabsTrigger>
+            <TabsTrigger value="distribution">Distribution</TabsTrigger>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+            <TabsTrigger value="sweep">Sweep</TabsTrigger>
+          </TabsList>
+        </Tabs>
 
-      <Card className="mb-6 bg-slate-800 border-slate-700">
-        <CardContent className="p-0">
-          <div className="h-[500px] w-full p-4">
-            <canvas ref={chartRef} />
+        <div className="flex items-center gap-2">
+          <EngineBadge engine={results.engine} />
+          <div className={`w-64 ${view === "single" ? "" : "invisible"}`}>
+            <Select
+              value={simulationIndex.toString()}
+              onValueChange={(value) => onSelectSimulation(Number.parseInt(value))}
+            >
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue placeholder="Select simulation" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {Array.from({ length: numSimulations }).map((_, i) => (
+                  <SelectItem key={i} value={i.toString()}>
+                    Simulation {i + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-        </CardContent>
-      </Card>
+          <ExportMenu className="bg-slate-800 border-slate-700" />
+        </div>
+      </div>
 
-      <div className="grid grid-cols-2 gap-6">
-        <Card className="bg-slate-800 border-slate-700">
-          <CardHeader>
-            <CardTitle>Summary</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div>
-                <div className="text-sm font-medium text-slate-400">Realized Volatility</div>
-                <div className="mt-1 text-xl font-semibold">{formatNumber(simData.realizedVolatility)}%</div>
+      {view === "distribution" ? (
+        <DistributionAnalytics results={results} />
+      ) : view === "compare" ? (
+        <RunComparison />
+      ) : view === "sweep" ? (
+        <ParameterSweep results={results} />
+      ) : (
+        <>
+          <Card className="mb-6 bg-slate-800 border-slate-700">
+            <CardContent className="p-0">
+              <div className="h-[500px] w-full p-4">
+                <canvas ref={chartRef} />
               </div>
+            </CardContent>
+          </Card>
 
-              <div>
-                <div className="text-sm font-medium text-slate-400">Extreme Event</div>
-                <div className="mt-1 text-xl font-semibold flex items-center">
-                  {simData.extremeEvent ? (
-                    <>
-                      <span className="text-red-500 mr-2">Yes</span>
-                      <span className="text-sm text-slate-400">(Time Index: {simData.extremeEventIndex})</span>
-                    </>
-                  ) : (
-                    <span className="text-emerald-500">No</span>
-                  )}
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card className="bg-slate-800 border-slate-700">
-          <CardHeader>
-            <CardTitle>Effective Trends</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {simData.effectiveTrends.map((trend, i) => (
-                <div key={i} className="flex justify-between items-center py-1 border-b border-slate-700 last:border-0">
-                  <div className="flex items-center">
-                    <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: getColorForIndex(i) }}></div>
-                    <span className="text-sm">Currency {i + 1}</span>
+          <div className="grid grid-cols-2 gap-6">
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div>
+                    <div className="text-sm font-medium text-slate-400">Average Realized Volatility</div>
+                    <div className="mt-1 text-xl font-semibold">
+                      {formatNumber(
+                        simData.realizedVolatility.reduce((sum, v) => sum + v, 0) / simData.realizedVolatility.length,
+                      )}
+                      %
+                    </div>
                   </div>
-                  <div className={`font-medium ${trend >= 0 ? "text-emerald-500" : "text-red-500"}`}>
-                    {trend >= 0 ? "+" : ""}
-                    {formatNumber(trend * 100)}%
+
+                  <div>
+                    <div className="text-sm font-medium text-slate-400">Events</div>
+                    {simData.events.length > 0 ? (
+                      <div className="mt-1 space-y-1">
+                        {simData.events.map((occurrence, i) => (
+                          <div key={i} className="flex items-center">
+                            <span className="text-xl font-semibold text-red-500 mr-2">
+                              {eventConfigs(results.params)[occurrence.event]?.name ?? `Event ${occurrence.event + 1}`}
+                            </span>
+                            <span className="text-sm text-slate-400">
+                              (Time Steps {windows[i].start}–{windows[i].end})
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="mt-1 text-xl font-semibold text-emerald-500">None</div>
+                    )}
                   </div>
                 </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader>
+                <CardTitle>Effective Trends</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {simData.effectiveTrends.map((trend, i) => (
+                    <div key={i} className="flex justify-between items-center py-1 border-b border-slate-700 last:border-0">
+                      <div className="flex items-center">
+                        <div
+                          className="w-3 h-3 rounded-full mr-2"
+                          style={{ backgroundColor: getAssetColor(results.params, i) }}
+                        ></div>
+                        <span className="text-sm">{getAssetName(results.params, i)}</span>
+                      </div>
+                      <div className={`font-medium ${trend >= 0 ? "text-emerald-500" : "text-red-500"}`}>
+                        {trend >= 0 ? "+" : ""}
+                        {formatNumber(trend * 100)}%
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <VolatilityAnalysis results={results} selectedSimulation={simulationIndex} />
+
+          <RiskMetricsPanel results={results} selectedSimulation={simulationIndex} />
+
+          <StrategyBacktest results={results} selectedSimulation={simulationIndex} />
+        </>
+      )}
     </div>
   )
 }
+
+// Observation range of every event that fired in a simulation
+function eventWindows(params: SimulationParams, simulation: SimulationData) {
+  const events = eventConfigs(params)
+  return simulation.events.map(({ event, start }) => ({ start, end: start + (events[event]?.duration ?? 1) - 1 }))
+}
+
+// Which engine produced the results, flagged when it stood in for the selected one
+function EngineBadge({ engine }: { engine: SimulationResult["engine"] }) {
+  if (!engine) {
+    return <span className="rounded-full border border-slate-700 px-2 py-1 text-xs text-slate-400">Engine unknown</span>
+  }
+
+  const label = `${ENGINE_LABELS[engine.engine]} v${engine.version}`
+  if (engine.fallback) {
+    return (
+      <span
+        className="rounded-full border border-amber-600 bg-amber-950 px-2 py-1 text-xs text-amber-300"
+        title={`${engine.runtime}\n${engine.fallback.reason}`}
+      >
+        {label} · fallback from {ENGINE_LABELS[engine.fallback.from]}
+      </span>
+    )
+  }
+  return (
+    <span className="rounded-full border border-slate-700 px-2 py-1 text-xs text-slate-300" title={engine.runtime}>
+      {label}
+    </span>
+  )
+}
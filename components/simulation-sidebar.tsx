@@ -1,120 +1,232 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
-import { z } from "zod"
-import { Play } from "lucide-react"
+import { Link, Play, Square } from "lucide-react"
+import { toast } from "sonner"
 
+import { AssetListEditor } from "@/components/asset-list-editor"
+import { BackgroundJobs } from "@/components/background-jobs"
+import { CalibrationDialog } from "@/components/calibration-dialog"
+import { CorrelationMatrixEditor } from "@/components/correlation-matrix-editor"
+import { EventScenarioEditor } from "@/components/event-scenario-editor"
+import { PresetPicker } from "@/components/preset-picker"
+import { RunHistory } from "@/components/run-history"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
-import { runPythonSimulation } from "@/lib/python-simulation"
+import { getAssetName } from "@/lib/assets"
+import { ENGINE_IDS, ENGINE_LABELS, equicorrelatedStructure } from "@/lib/engine"
+import { legacyEvent } from "@/lib/events"
+import { defaultModelParams, models } from "@/lib/models"
+import { PythonSimulationError, SimulationCancelledError, loadPythonEngine } from "@/lib/python-simulation"
+import { runOnEngine } from "@/lib/simulation"
+import { defaultFormValues, formSchema, type SimulationFormValues } from "@/lib/simulation-schema"
+import { decodeFormValues, sharedParamsFromHash, shareUrl } from "@/lib/share"
 import { useSimulationStore } from "@/lib/simulation-store"
+import type { CorrelationStructure, ModelId, SimulationEngine, SimulationResult } from "@/lib/types"
 
-const formSchema = z.object({
-  // Your form schema remains the same
-  randomSeed: z.coerce.number().int().default(42),
-  nSimulations: z.coerce.number().int().min(1).max(1000).default(100),
-  nObservations: z.coerce
-    .number()
-    .int()
-    .min(100)
-    .max(1000000)
-    .default(60 * 24 * 7 * 26),
-  basePrice: z.coerce.number().min(1).default(2000),
-  nCurrencies: z.coerce.number().int().min(1).max(20).default(5),
-  transactionFee: z.coerce.number().min(0).max(1).default(0.0006),
-  variance: z.coerce
-    .number()
-    .min(0)
-    .max(1)
-    .default(0.012 * 0.012),
-  covariance: z.coerce
-    .number()
-    .min(0)
-    .max(1)
-    .default(0.007 * 0.007),
-  volatility: z.coerce.number().min(0.1).max(20).default(3),
-  volatilityCovariance: z.coerce.number().min(0.1).max(10).default(1.75),
-  extremeEventProbability: z.coerce.number().min(0).max(1).default(0.05),
-  extremeEventVariance: z.coerce.number().min(1).max(10000).default(500),
-  extremeEventCovariance: z.coerce.number().min(1).max(10000).default(450),
-  extremeEventDuration: z.coerce
-    .number()
-    .int()
-    .min(1)
-    .max(100000)
-    .default(60 * 24),
-});
+type StructureField = "trendStructure" | "volatilityStructure" | "extremeEventStructure"
+
+const STRUCTURE_LABELS: Record<StructureField, string> = {
+  trendStructure: "Trend",
+  volatilityStructure: "Volatility",
+  extremeEventStructure: "Extreme event",
+}
+
+interface RunError {
+  message: string
+  traceback?: string
+}
+
+function toRunError(error: unknown): RunError {
+  if (error instanceof PythonSimulationError) {
+    return { message: error.message, traceback: error.traceback }
+  }
+  return { message: error instanceof Error ? error.message : String(error) }
+}
 
 export function SimulationSidebar() {
   const [isRunning, setIsRunning] = useState(false)
-  const { setResults: setSimulationResults, isPyodideReady, setIsPyodideReady } = useSimulationStore()
+  const [runError, setRunError] = useState<RunError | null>(null)
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null)
+  const abortController = useRef<AbortController | null>(null)
+  const [structureField, setStructureField] = useState<StructureField>("trendStructure")
+  const {
+    recordRun,
+    appendSimulation,
+    setSelectedEngine,
+    pythonEngineStatus,
+    pythonEngineError,
+    setPythonEngineStatus,
+  } = useSimulationStore()
+
+  // Start the Python worker in the background so the first run doesn't wait for Pyodide
+  useEffect(() => {
+    if (pythonEngineStatus !== "loading") return
+
+    loadPythonEngine()
+      .then(() => setPythonEngineStatus("ready"))
+      .catch((error) => {
+        console.error("Failed to load the Python engine:", error)
+        setPythonEngineStatus("failed", error instanceof Error ? error.message : String(error))
+      })
+  }, [pythonEngineStatus, setPythonEngineStatus])
+
+  const form = useForm<SimulationFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: defaultFormValues,
+  })
 
+  // Restore the parameters of a shared link
   useEffect(() => {
-    // Check if the script is already on the page or if we've already initialized
-    if (isPyodideReady || document.querySelector("#pyodide-script")) {
-      setIsPyodideReady(true)
-      return;
+    const encoded = sharedParamsFromHash(window.location.hash)
+    if (!encoded) return
+
+    try {
+      form.reset(decodeFormValues(encoded))
+      toast.success("Loaded shared parameters", { description: "Run the simulation to reproduce the shared results." })
+    } catch (error) {
+      console.error("Failed to load shared parameters:", error)
+      toast.error("Could not load the shared parameters", {
+        description: error instanceof Error ? error.message : String(error),
+      })
     }
+  }, [form])
 
-    console.log("Manually injecting Pyodide script...");
-    const script = document.createElement("script");
-    script.id = "pyodide-script";
-    script.src = "https://cdn.jsdelivr.net/pyodide/v0.27.7/full/pyodide.js";
+  async function copyShareLink() {
+    const parsed = formSchema.safeParse(form.getValues())
+    if (!parsed.success) {
+      // Show the field errors in the form instead of sharing values that won't load
+      form.trigger()
+      toast.error("Fix the invalid parameters before sharing")
+      return
+    }
 
-    script.onload = () => {
-      console.log("✅ Pyodide script loaded successfully via manual injection.");
-      setIsPyodideReady(true);
-    };
+    const url = shareUrl(parsed.data, window.location.href)
+    window.history.replaceState(null, "", url)
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success("Link copied", { description: "Anyone opening it gets these parameters, seed and engine." })
+    } catch {
+      toast.info("Copy the link from the address bar", { description: "The clipboard is not available here." })
+    }
+  }
 
-    script.onerror = () => {
-      console.error("Manual injection of Pyodide script failed.");
-    };
+  const selectedModel = models[form.watch("model")]
 
-    document.head.appendChild(script);
+  const [nCurrencies, variance, covariance, volatility, volatilityCovariance, extremeEventVariance, extremeEventCovariance] =
+    form.watch([
+      "nCurrencies",
+      "variance",
+      "covariance",
+      "volatility",
+      "volatilityCovariance",
+      "extremeEventVariance",
+      "extremeEventCovariance",
+    ])
 
-  }, [isPyodideReady, setIsPyodideReady]);
+  // Equicorrelated matrices implied by the scalar parameters, in the units the engine draws in
+  const defaultStructures = useMemo<Record<StructureField, CorrelationStructure>>(
+    () => ({
+      trendStructure: equicorrelatedStructure(nCurrencies, variance, covariance),
+      volatilityStructure: equicorrelatedStructure(
+        nCurrencies,
+        (volatility / 100) ** 2 * 0.1,
+        volatilityCovariance / 10000,
+      ),
+      extremeEventStructure: equicorrelatedStructure(
+        nCurrencies,
+        extremeEventVariance / 10000,
+        extremeEventCovariance / 10000,
+      ),
+    }),
+    [nCurrencies, variance, covariance, volatility, volatilityCovariance, extremeEventVariance, extremeEventCovariance],
+  )
 
+  const [extremeEventProbability, extremeEventDuration, assets] = form.watch([
+    "extremeEventProbability",
+    "extremeEventDuration",
+    "assets",
+  ])
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      randomSeed: 2151,
-      nSimulations: 100,
-      nObservations: 60 * 24 * 7 * 26,
-      basePrice: 2000,
-      nCurrencies: 5,
-      transactionFee: 0.0006,
-      variance: 0.012 * 0.012,
-      covariance: 0.007 * 0.007,
-      volatility: 3,
-      volatilityCovariance: 1.75,
-      extremeEventProbability: 0.05,
-      extremeEventVariance: 500,
-      extremeEventCovariance: 450,
-      extremeEventDuration: 60 * 24,
-    },
-  })
+  // A new scenario starts from the single event the extreme event parameters describe
+  const defaultEvent = useMemo(
+    () =>
+      legacyEvent({
+        nCurrencies: Number(nCurrencies),
+        extremeEventProbability: Number(extremeEventProbability),
+        extremeEventDuration: Number(extremeEventDuration),
+      }),
+    [nCurrencies, extremeEventProbability, extremeEventDuration],
+  )
+  const assetNames = Array.from({ length: nCurrencies }, (_, i) => getAssetName({ assets }, i))
+
+  // Results are shown right away; a run that cannot be stored only misses out on the history
+  function showRun(results: SimulationResult, selected: SimulationEngine) {
+    // Every engine records itself on its results; the selected one is only a stand-in
+    const { engine } = results
+    if (engine?.fallback) {
+      toast.warning(`Ran on ${ENGINE_LABELS[engine.engine]} instead of ${ENGINE_LABELS[engine.fallback.from]}`, {
+        description: engine.fallback.reason,
+      })
+    }
+    recordRun(results, engine?.engine ?? selected).catch((error) => {
+      console.error("Failed to save the run:", error)
+      toast.warning("Run not saved to history", {
+        description: error instanceof Error ? error.message : String(error),
+      })
+    })
+  }
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!isPyodideReady) {
-      console.error("Pyodide is not ready yet.")
+  // The parameter sweep runs on the engine selected here
+  const selectedEngine = form.watch("engine")
+  useEffect(() => setSelectedEngine(selectedEngine), [selectedEngine, setSelectedEngine])
+
+  // The server's TypeScript engine runs the same model, and stands in when Python could not start
+  const usesPython = selectedEngine === "python" && pythonEngineStatus !== "failed"
+
+  async function onSubmit({ engine, ...values }: SimulationFormValues) {
+    if (engine === "python" && pythonEngineStatus === "loading") {
+      toast.info("The Python engine is still loading", {
+        description: "Run again once it is ready, or choose a TypeScript engine.",
+      })
       return
     }
+
+    const controller = new AbortController()
+    abortController.current = controller
     setIsRunning(true)
+    setRunError(null)
+    setProgress({ completed: 0, total: values.nSimulations })
+
     try {
-      console.log("Running Python simulation with parameters:", values)
-      const results = await runPythonSimulation(values)
-      console.log("Python simulation results:", results)
-      setSimulationResults(results)
+      showRun(
+        await runOnEngine(values, engine, {
+          signal: controller.signal,
+          onProgress: (completed, total) => setProgress({ completed, total }),
+          // The TypeScript engines show simulations as they come in
+          onSimulation: (simulation, index, engineInfo) => appendSimulation(values, simulation, index, engineInfo),
+        }),
+        engine,
+      )
     } catch (error) {
-      console.error("Error running Python simulation:", error)
+      if (error instanceof SimulationCancelledError) {
+        // Cancelling discards the Python worker, so Pyodide has to be loaded again
+        if (engine === "python" && pythonEngineStatus === "ready") setPythonEngineStatus("loading")
+      } else {
+        console.error("Error running simulation:", error)
+        setRunError(toRunError(error))
+      }
     } finally {
+      abortController.current = null
       setIsRunning(false)
+      setProgress(null)
     }
   }
 
@@ -123,12 +235,30 @@ export function SimulationSidebar() {
       <div className="p-4 border-b border-slate-800">
         <h1 className="text-xl font-bold">Simulation Parameters</h1>
         <p className="text-sm text-slate-400 mt-1">Python-powered Monte Carlo simulation</p>
+        <p
+          className={`text-xs mt-2 ${
+            pythonEngineStatus === "ready"
+              ? "text-emerald-500"
+              : pythonEngineStatus === "failed"
+                ? "text-amber-400"
+                : "text-slate-400"
+          }`}
+        >
+          {pythonEngineStatus === "ready"
+            ? "Python engine ready"
+            : pythonEngineStatus === "failed"
+              ? "Python engine unavailable, using the TypeScript engine instead"
+              : "Loading Python engine..."}
+        </p>
+        {pythonEngineError && <p className="text-xs text-slate-500 mt-1">{pythonEngineError}</p>}
       </div>
 
       <div className="p-4">
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            
+            <PresetPicker getValues={() => form.getValues()} onApply={(values) => form.reset(values)} />
+            <CalibrationDialog getValues={() => form.getValues()} onApply={(values) => form.reset(values)} />
+
             {/* General Settings Card */}
             <Card className="bg-slate-800 border-slate-700">
               <CardHeader className="pb-3">
@@ -151,6 +281,34 @@ export function SimulationSidebar() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="engine"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Engine</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-slate-900">
+                            <SelectValue placeholder="Select an engine" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ENGINE_IDS.map((id) => (
+                            <SelectItem key={id} value={id}>
+                              {ENGINE_LABELS[id]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs text-slate-400">
+                        All run the same model. Python falls back to the server, and the server to the browser, when
+                        they are unavailable.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="nSimulations"
@@ -191,6 +349,31 @@ export function SimulationSidebar() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="timeStep"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Observation Interval</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-slate-900">
+                            <SelectValue placeholder="Select an interval" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="minute">Minute</SelectItem>
+                          <SelectItem value="hour">Hour</SelectItem>
+                          <SelectItem value="day">Day</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs text-slate-400">
+                        Time between observations; trend and volatility are annualized (default: minute)
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="basePrice"
@@ -247,6 +430,74 @@ export function SimulationSidebar() {
               </CardContent>
             </Card>
 
+            {/* Process Model Card */}
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">Process Model</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="model"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value)
+                          form.setValue("modelParams", defaultModelParams(value as ModelId))
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="bg-slate-900">
+                            <SelectValue placeholder="Select a model" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.values(models).map((model) => (
+                            <SelectItem key={model.id} value={model.id}>
+                              {model.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs text-slate-400">{selectedModel.description}</FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                {selectedModel.parameters.map((parameter) => (
+                  <FormField
+                    key={`${selectedModel.id}.${parameter.key}`}
+                    control={form.control}
+                    name={`modelParams.${parameter.key}`}
+                    render={({ field: { value, onChange } }) => (
+                      <FormItem>
+                        <div className="flex justify-between">
+                          <FormLabel>{parameter.label}</FormLabel>
+                          <span className="text-sm text-slate-400">{value ?? parameter.defaultValue}</span>
+                        </div>
+                        <FormControl>
+                          <Slider
+                            min={parameter.min}
+                            max={parameter.max}
+                            step={parameter.step}
+                            value={[value ?? parameter.defaultValue]}
+                            onValueChange={(vals) => onChange(vals[0])}
+                            className="py-4"
+                          />
+                        </FormControl>
+                        <FormDescription className="text-xs text-slate-400">
+                          {parameter.description} (default: {parameter.defaultValue})
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+
             {/* Trend & Volatility Card */}
             <Card className="bg-slate-800 border-slate-700">
               <CardHeader className="pb-3">
@@ -349,8 +600,26 @@ export function SimulationSidebar() {
                         />
                       </FormControl>
                       <FormDescription className="text-xs text-slate-400">
-                        VOLATILITY_COVARIANCE (default: 1.75)
+                        VOLATILITY_COVARIANCE (default: 0.6, at most the volatility variance)
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="volatilityWindow"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Realized Volatility Window</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} className="bg-slate-900" />
+                      </FormControl>
+                      <FormDescription className="text-xs text-slate-400">
+                        Observations in the rolling realized volatility window: 60*24*30 = {60 * 24 * 30} minutes (30
+                        days)
                       </FormDescription>
+                      <FormMessage />
                     </FormItem>
                   )}
                 />
@@ -456,26 +725,147 @@ export function SimulationSidebar() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="events"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Event Scenario</FormLabel>
+                      <EventScenarioEditor
+                        nCurrencies={nCurrencies}
+                        assetNames={assetNames}
+                        value={field.value}
+                        defaultEvent={defaultEvent}
+                        onChange={field.onChange}
+                      />
+                      <FormDescription className="text-xs text-slate-400">
+                        A scenario replaces the single event above. Events fire independently; leave the start empty
+                        to draw it at random. Shocks keep the variance and covariance above.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Assets Card */}
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">Assets</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="assets"
+                  render={({ field }) => (
+                    <FormItem>
+                      <AssetListEditor nCurrencies={nCurrencies} value={field.value} onChange={field.onChange} />
+                      <FormDescription className="text-xs text-slate-400">
+                        Name and color per currency. Leave price, drift or volatility (%) empty to sample them.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Correlation Structure Card */}
+            <Card className="bg-slate-800 border-slate-700">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">Correlation Structure</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={structureField} onValueChange={(value) => setStructureField(value as StructureField)}>
+                  <SelectTrigger className="bg-slate-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="trendStructure">Trends</SelectItem>
+                    <SelectItem value="volatilityStructure">Volatilities</SelectItem>
+                    <SelectItem value="extremeEventStructure">Extreme event shocks</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <FormField
+                  key={structureField}
+                  control={form.control}
+                  name={structureField}
+                  render={({ field }) => (
+                    <FormItem>
+                      <CorrelationMatrixEditor
+                        label={STRUCTURE_LABELS[structureField]}
+                        nCurrencies={nCurrencies}
+                        assetNames={assetNames}
+                        value={field.value}
+                        defaultStructure={defaultStructures[structureField]}
+                        onChange={field.onChange}
+                      />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
             <Button
               type="submit"
-              disabled={isRunning || !isPyodideReady}
+              disabled={isRunning || (usesPython && pythonEngineStatus === "loading")}
               className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
             >
-              {!isPyodideReady ? (
+              {usesPython && pythonEngineStatus === "loading" ? (
                 "Loading Python Engine..."
               ) : isRunning ? (
-                "Running Python Simulation..."
+                usesPython ? "Running Python Simulation..." : "Running Simulation..."
               ) : (
                 <>
-                  <Play className="mr-2 h-4 w-4" /> Run Python Simulation
+                  <Play className="mr-2 h-4 w-4" /> {usesPython ? "Run Python Simulation" : "Run Simulation"}
                 </>
               )}
             </Button>
+
+            <Button type="button" variant="outline" className="w-full" onClick={copyShareLink}>
+              <Link className="mr-2 h-4 w-4" /> Copy Link
+            </Button>
+
+            {progress && (
+              <div className="space-y-2">
+                <Progress value={(progress.completed / progress.total) * 100} className="h-2 bg-slate-800" />
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                  <span>
+                    Simulation {progress.completed}/{progress.total}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => abortController.current?.abort()}
+                  >
+                    <Square className="mr-2 h-3 w-3" /> Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {runError && (
+              <div className="space-y-1">
+                <p className="whitespace-pre-line text-sm text-red-400">{runError.message}</p>
+                {runError.traceback && (
+                  <details className="text-xs text-slate-400">
+                    <summary className="cursor-pointer">Python traceback</summary>
+                    <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-950 p-2">
+                      {runError.traceback}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            )}
           </form>
         </Form>
+
+        <BackgroundJobs getValues={() => form.getValues()} />
+        <RunHistory />
       </div>
     </aside>
   )
@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Chart, registerables } from "chart.js"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getAssetName } from "@/lib/assets"
+import { defaultBacktestOptions, runBacktests, strategies } from "@/lib/backtest"
+import { timeSeries } from "@/lib/charts"
+import { analysisIndices } from "@/lib/engine"
+import type { SimulationResult, StrategyId } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+Chart.register(...registerables)
+
+interface StrategyBacktestProps {
+  results: SimulationResult
+  selectedSimulation: number
+}
+
+export function StrategyBacktest({ results, selectedSimulation }: StrategyBacktestProps) {
+  const [strategyId, setStrategyId] = useState<StrategyId>("buy-and-hold")
+  const chartRef = useRef<HTMLCanvasElement>(null)
+  const chartInstance = useRef<Chart | null>(null)
+
+  // Backtest every simulation so the summary can show the spread of outcomes
+  const backtests = useMemo(() => runBacktests(results, strategyId), [results, strategyId])
+  const backtest = backtests[selectedSimulation]
+  // Observation index of every price sample the backtest traded on
+  const time = useMemo(() => analysisIndices(results.params.nObservations), [results.params.nObservations])
+
+  const averagePnl = backtests.reduce((sum, b) => sum + b.netPnl, 0) / backtests.length
+  const winRate = backtests.filter((b) => b.netPnl > 0).length / backtests.length
+
+  useEffect(() => {
+    if (!backtest || !chartRef.current) return
+
+    if (chartInstance.current) {
+      chartInstance.current.destroy()
+    }
+
+    const ctx = chartRef.current.getContext("2d")
+    if (!ctx) return
+
+    chartInstance.current = new Chart(ctx, {
+      type: "line",
+      data: {
+        datasets: [
+          {
+            label: "Equity",
+            data: timeSeries(time, backtest.equity),
+            borderColor: "rgba(16, 185, 129, 1)", // emerald
+            backgroundColor: "rgba(16, 185, 129, 0.1)",
+            borderWidth: 2,
+            pointRadius: 0,
+            tension: 0.1,
+            fill: true,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            mode: "index",
+            intersect: false,
+            backgroundColor: "#1e293b", // slate-800
+            titleColor: "#f8fafc", // slate-50
+            bodyColor: "#f8fafc", // slate-50
+            borderColor: "#475569", // slate-600
+            borderWidth: 1,
+          },
+        },
+        scales: {
+          x: {
+            type: "linear",
+            min: time[0],
+            max: time[time.length - 1],
+            grid: { color: "#334155" }, // slate-700
+            ticks: { color: "#cbd5e1" }, // slate-300
+          },
+          y: {
+            grid: { color: "#334155" }, // slate-700
+            ticks: { color: "#cbd5e1" }, // slate-300
+          },
+        },
+      },
+    })
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy()
+        chartInstance.current = null
+      }
+    }
+  }, [backtest, time])
+
+  if (!backtest) return null
+
+  return (
+    <Card className="mt-6 bg-slate-800 border-slate-700">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Strategy Backtest</CardTitle>
+        <div className="w-64">
+          <Select value={strategyId} onValueChange={(value) => setStrategyId(value as StrategyId)}>
+            <SelectTrigger className="bg-slate-900 border-slate-700">
+              <SelectValue placeholder="Select strategy" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {Object.values(strategies).map((strategy) => (
+                <SelectItem key={strategy.id} value={strategy.id}>
+                  {strategy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-400">{strategies[strategyId].description}</p>
+
+        <div className="grid grid-cols-4 gap-4">
+          <div>
+            <div className="text-sm font-medium text-slate-400">Net PnL</div>
+            <div className={`mt-1 text-xl font-semibold ${backtest.netPnl >= 0 ? "text-emerald-500" : "text-red-500"}`}>
+              {backtest.netPnl >= 0 ? "+" : ""}
+              {formatNumber(backtest.netPnl)} ({formatNumber(backtest.returnPct * 100)}%)
+            </div>
+          </div>
+          <div>
+            <div className="text-sm font-medium text-slate-400">Fees Paid</div>
+            <div className="mt-1 text-xl font-semibold">{formatNumber(backtest.fees)}</div>
+          </div>
+          <div>
+            <div className="text-sm font-medium text-slate-400">Average PnL (all simulations)</div>
+            <div className={`mt-1 text-xl font-semibold ${averagePnl >= 0 ? "text-emerald-500" : "text-red-500"}`}>
+              {averagePnl >= 0 ? "+" : ""}
+              {formatNumber(averagePnl)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm font-medium text-slate-400">Profitable Simulations</div>
+            <div className="mt-1 text-xl font-semibold">{formatNumber(winRate * 100)}%</div>
+          </div>
+        </div>
+
+        <div className="h-[250px] w-full">
+          <canvas ref={chartRef} />
+        </div>
+
+        <div>
+          <div className="text-sm font-medium text-slate-400 mb-2">
+            Trade Log ({backtest.trades.length} fills, starting capital{" "}
+            {formatNumber(defaultBacktestOptions.initialCapital)})
+          </div>
+          <div className="max-h-64 overflow-y-auto rounded-md border border-slate-700">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Time</th>
+                  <th className="px-3 py-2 text-left font-medium">Currency</th>
+                  <th className="px-3 py-2 text-left font-medium">Side</th>
+                  <th className="px-3 py-2 text-right font-medium">Quantity</th>
+                  <th className="px-3 py-2 text-right font-medium">Price</th>
+                  <th className="px-3 py-2 text-right font-medium">Fee</th>
+                </tr>
+              </thead>
+              <tbody>
+                {backtest.trades.map((trade, i) => (
+                  <tr key={i} className="border-t border-slate-700">
+                    <td className="px-3 py-1">{time[trade.time]}</td>
+                    <td className="px-3 py-1">{getAssetName(results.params, trade.currency)}</td>
+                    <td className={`px-3 py-1 ${trade.side === "buy" ? "text-emerald-500" : "text-red-500"}`}>
+                      {trade.side.toUpperCase()}
+                    </td>
+                    <td className="px-3 py-1 text-right">{trade.quantity.toFixed(4)}</td>
+                    <td className="px-3 py-1 text-right">{formatNumber(trade.price)}</td>
+                    <td className="px-3 py-1 text-right">{formatNumber(trade.fee)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Chart, registerables } from "chart.js"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getAssetColor, getAssetName } from "@/lib/assets"
+import { timeAxis, timeSeries } from "@/lib/charts"
+import { defaultVolatilityWindow } from "@/lib/engine"
+import type { SimulationResult } from "@/lib/types"
+import { formatNumber } from "@/lib/utils"
+
+Chart.register(...registerables)
+
+interface VolatilityAnalysisProps {
+  results: SimulationResult
+  selectedSimulation: number
+}
+
+export function VolatilityAnalysis({ results, selectedSimulation }: VolatilityAnalysisProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null)
+  const chartInstance = useRef<Chart | null>(null)
+  const simData = results.simulations[selectedSimulation]
+  const volatilityWindow = results.params.volatilityWindow ?? defaultVolatilityWindow(results.params.timeStep)
+
+  useEffect(() => {
+    if (!simData || !chartRef.current) return
+
+    if (chartInstance.current) {
+      chartInstance.current.destroy()
+    }
+
+    const ctx = chartRef.current.getContext("2d")
+    if (!ctx) return
+
+    // Solid lines are the rolling realized volatility, dashed lines the generated parameter
+    const datasets = simData.rollingVolatility.flatMap((series, i) => [
+      {
+        label: getAssetName(results.params, i),
+        data: timeSeries(simData.time, series),
+        borderColor: getAssetColor(results.params, i),
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.1,
+      },
+      {
+        label: `${getAssetName(results.params, i)} input`,
+        data: timeSeries(simData.time, series.map(() => simData.volatilities[i] * 100)),
+        borderColor: getAssetColor(results.params, i, 0.6),
+        borderWidth: 1,
+        borderDash: [6, 4],
+        pointRadius: 0,
+      },
+    ])
+
+    chartInstance.current = new Chart(ctx, {
+      type: "line",
+      data: { datasets },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            position: "top",
+            labels: {
+              color: "#f8fafc", // slate-50
+              // The dashed input lines share their currency's color, so only list the realized series
+              filter: (item) => item.datasetIndex === undefined || item.datasetIndex % 2 === 0,
+            },
+          },
+          tooltip: {
+            mode: "index",
+            intersect: false,
+            backgroundColor: "#1e293b", // slate-800
+            titleColor: "#f8fafc", // slate-50
+            bodyColor: "#f8fafc", // slate-50
+            borderColor: "#475569", // slate-600
+            borderWidth: 1,
+          },
+        },
+        scales: {
+          x: timeAxis(simData.time),
+          y: {
+            title: { display: true, text: "Annualized Volatility (%)", color: "#cbd5e1" }, // slate-300
+            grid: { color: "#334155" }, // slate-700
+            ticks: { color: "#cbd5e1" }, // slate-300
+          },
+        },
+      },
+    })
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy()
+        chartInstance.current = null
+      }
+    }
+  }, [results, simData])
+
+  if (!simData) return null
+
+  return (
+    <Card className="mt-6 bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle>Realized Volatility</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-400">
+          Rolling realized volatility over the trailing {volatilityWindow.toLocaleString("en-US")} observations against the
+          volatility each currency was generated with (dashed).
+        </p>
+
+        <div className="h-[300px] w-full">
+          <canvas ref={chartRef} />
+        </div>
+
+        <div className="overflow-x-auto rounded-md border border-slate-700">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-900 text-slate-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Currency</th>
+                <th className="px-3 py-2 text-right font-medium">Input</th>
+                <th className="px-3 py-2 text-right font-medium">Realized</th>
+                <th className="px-3 py-2 text-right font-medium">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {simData.realizedVolatility.map((realized, i) => {
+                const input = simData.volatilities[i] * 100
+                const difference = realized - input
+                return (
+                  <tr key={i} className="border-t border-slate-700">
+                    <td className="px-3 py-1">
+                      <div className="flex items-center">
+                        <div
+                          className="w-3 h-3 rounded-full mr-2"
+                          style={{ backgroundColor: getAssetColor(results.params, i) }}
+                        ></div>
+                        {getAssetName(results.params, i)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-1 text-right">{formatNumber(input)}%</td>
+                    <td className="px-3 py-1 text-right">{formatNumber(realized)}%</td>
+                    <td className="px-3 py-1 text-right">
+                      {difference >= 0 ? "+" : ""}
+                      {formatNumber(difference)} pp
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
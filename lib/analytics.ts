@@ -0,0 +1,95 @@
+import { STEPS_PER_YEAR, analysisIndices } from "./engine"
+import { eventConfigs } from "./events"
+import type { SimulationResult } from "./types"
+
+// Percentiles shown in the fan chart, from the lower to the upper band edge
+export const FAN_PERCENTILES = [5, 25, 50, 75, 95]
+
+export interface Histogram {
+  edges: number[] // bins + 1 bin boundaries, ascending
+  counts: number[] // Number of values in each bin
+}
+
+// Linearly interpolated percentile (0-100) of an ascending array
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export interface PriceFan {
+  time: number[] // Observation indices the percentiles are taken at
+  percentiles: number[][] // One series per FAN_PERCENTILES entry
+}
+
+// Price percentiles of one currency at the evenly spaced samples every simulation shares
+export function priceFan(results: SimulationResult, currency: number): PriceFan {
+  const time = results.simulations.length > 0 ? analysisIndices(results.params.nObservations) : []
+  const percentiles = FAN_PERCENTILES.map(() => new Array<number>(time.length))
+
+  time.forEach((_, t) => {
+    const sorted = results.simulations.map((sim) => sim.samples[currency][t]).sort((a, b) => a - b)
+    FAN_PERCENTILES.forEach((p, k) => {
+      percentiles[k][t] = percentile(sorted, p)
+    })
+  })
+
+  return { time, percentiles }
+}
+
+// Total return of one currency over the full-resolution path of every simulation.
+// The sampled prices may stop short of the last observation, so this inverts the
+// annualized effective trend instead.
+export function finalReturns(results: SimulationResult, currency: number): number[] {
+  const { nObservations, timeStep } = results.params
+  const years = (nObservations - 1) / STEPS_PER_YEAR[timeStep]
+  return results.simulations.map((sim) => Math.pow(1 + sim.effectiveTrends[currency], years) - 1)
+}
+
+// Share of simulations in which at least one event fired
+export function extremeEventFraction(results: SimulationResult): number {
+  if (results.simulations.length === 0) return 0
+  return results.simulations.filter((sim) => sim.events.length > 0).length / results.simulations.length
+}
+
+export interface EventFrequency {
+  name: string
+  probability: number // Configured chance of firing
+  fraction: number // Share of simulations in which it fired
+}
+
+// How often each event of the run's scenario fired, next to its configured probability
+export function eventFrequencies(results: SimulationResult): EventFrequency[] {
+  const n = results.simulations.length
+  return eventConfigs(results.params).map((event, index) => {
+    const fired = results.simulations.filter((sim) => sim.events.some((occurrence) => occurrence.event === index))
+    return { name: event.name, probability: event.probability, fraction: n > 0 ? fired.length / n : 0 }
+  })
+}
+
+// Equal-width histogram; the last bin includes the maximum. Pass a range to share bin edges
+// between histograms that are drawn on top of each other.
+export function histogram(values: number[], bins = 20, range?: [number, number]): Histogram {
+  const finite = values.filter(Number.isFinite)
+  if (finite.length === 0) return { edges: [], counts: [] }
+
+  const [min, max] = range ?? [Math.min(...finite), Math.max(...finite)]
+  // A degenerate range still gets one visible bin around the single value
+  const width = max > min ? (max - min) / bins : 1
+  const edges = Array.from({ length: bins + 1 }, (_, i) => min + i * width)
+  const counts = new Array<number>(bins).fill(0)
+
+  for (const value of finite) {
+    counts[Math.max(0, Math.min(Math.floor((value - min) / width), bins - 1))]++
+  }
+
+  return { edges, counts }
+}
+
+// Range spanning the finite values of several samples
+export function commonRange(...samples: number[][]): [number, number] {
+  const finite = samples.flat().filter(Number.isFinite)
+  return [Math.min(...finite), Math.max(...finite)]
+}
@@ -0,0 +1,89 @@
+import type { AssetConfig, SimulationParams } from "./types"
+
+// Default palette for currencies without an explicit color
+const PALETTE = [
+  "#3b82f6", // blue
+  "#10b981", // emerald
+  "#ef4444", // red
+  "#f59e0b", // amber
+  "#a855f7", // purple
+  "#ec4899", // pink
+  "#14b8a6", // teal
+  "#f97316", // orange
+  "#8b5cf6", // violet
+  "#06b6d4", // cyan
+]
+
+// Names suggested for new asset rows in the sidebar
+const DEFAULT_ASSET_NAMES = [
+  "BTC",
+  "ETH",
+  "SOL",
+  "BNB",
+  "XRP",
+  "ADA",
+  "DOGE",
+  "AVAX",
+  "DOT",
+  "LINK",
+  "LTC",
+  "ATOM",
+  "XLM",
+  "NEAR",
+  "ALGO",
+  "UNI",
+  "FIL",
+  "APT",
+  "ARB",
+  "OP",
+]
+
+export function defaultAssets(n: number): AssetConfig[] {
+  return Array.from({ length: n }, (_, i) => ({ name: DEFAULT_ASSET_NAMES[i] ?? `Currency ${i + 1}` }))
+}
+
+// Grow or shrink an asset list to n entries, keeping existing rows
+export function resizeAssets(assets: AssetConfig[], n: number): AssetConfig[] {
+  const defaults = defaultAssets(n)
+  return defaults.map((asset, i) => assets[i] ?? asset)
+}
+
+// One asset per currency, validated. Missing entries become anonymous currencies.
+export function resolveAssets(params: SimulationParams): AssetConfig[] {
+  const assets = params.assets ?? []
+  if (assets.length > params.nCurrencies) {
+    throw new Error(`${assets.length} assets were configured but the simulation only has ${params.nCurrencies} currencies.`)
+  }
+
+  return Array.from({ length: params.nCurrencies }, (_, i) => {
+    const asset = assets[i] ?? { name: `Currency ${i + 1}` }
+    if (asset.initialPrice !== undefined && !(asset.initialPrice > 0)) {
+      throw new Error(`Initial price of ${asset.name} must be positive (got ${asset.initialPrice}).`)
+    }
+    if (asset.volatility !== undefined && !(asset.volatility >= 0)) {
+      throw new Error(`Volatility override of ${asset.name} must not be negative (got ${asset.volatility}).`)
+    }
+    return asset
+  })
+}
+
+export function getAssetName(params: Pick<SimulationParams, "assets">, index: number): string {
+  return params.assets?.[index]?.name || `Currency ${index + 1}`
+}
+
+export function paletteColor(index: number): string {
+  return PALETTE[index % PALETTE.length]
+}
+
+export function getAssetColor(params: SimulationParams | null, index: number, alpha = 1): string {
+  const hex = params?.assets?.[index]?.color || paletteColor(index)
+  return hexToRgba(hex, alpha)
+}
+
+function hexToRgba(hex: string, alpha: number): string {
+  const value = Number.parseInt(hex.replace("#", ""), 16)
+  const r = (value >> 16) & 255
+  const g = (value >> 8) & 255
+  const b = value & 255
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+
+import { runBacktest } from "./backtest"
+import type { SimulationData } from "./types"
+
+// A simulation whose price samples are the given series, one per currency
+function simulation(samples: number[][]): SimulationData {
+  return {
+    time: samples[0].map((_, t) => t),
+    prices: samples,
+    samples,
+    trends: [],
+    volatilities: [],
+    events: [],
+    realizedVolatility: [],
+    rollingVolatility: [],
+    effectiveTrends: [],
+  }
+}
+
+describe("runBacktest", () => {
+  it("charges the fee on every fill", () => {
+    const result = runBacktest(
+      simulation([
+        [10, 20],
+        [50, 50],
+      ]),
+      "buy-and-hold",
+      {
+        initialCapital: 1000,
+        transactionFee: 0.0625,
+      },
+    )
+
+    expect(result.trades).toEqual([
+      { time: 0, currency: 0, side: "buy", quantity: 50, price: 10, fee: 31.25 },
+      { time: 0, currency: 1, side: "buy", quantity: 10, price: 50, fee: 31.25 },
+    ])
+    expect(result.equity).toEqual([937.5, 1437.5])
+    expect(result).toMatchObject({ fees: 62.5, netPnl: 437.5, returnPct: 0.4375 })
+  })
+
+  it("rebalances to equal weights every rebalance interval", () => {
+    const result = runBacktest(
+      simulation([
+        [10, 20, 20],
+        [10, 10, 10],
+      ]),
+      "equal-weight",
+      { initialCapital: 1000, transactionFee: 0.0625, rebalanceInterval: 2 },
+    )
+
+    expect(result.trades.slice(2)).toEqual([
+      { time: 2, currency: 0, side: "sell", quantity: 14.0625, price: 20, fee: 17.578125 },
+      { time: 2, currency: 1, side: "buy", quantity: 21.875, price: 10, fee: 13.671875 },
+    ])
+    expect(result.equity).toEqual([937.5, 1437.5, 1406.25])
+    expect(result.fees).toBe(93.75)
+  })
+
+  it("holds the currencies with the best lookback returns", () => {
+    const result = runBacktest(
+      simulation([
+        [10, 20, 20, 25],
+        [10, 10, 40, 40],
+      ]),
+      "momentum",
+      { initialCapital: 1000, transactionFee: 0, rebalanceInterval: 1, lookback: 1 },
+    )
+
+    expect(result.trades.map(({ time, currency, side, quantity }) => [time, currency, side, quantity])).toEqual([
+      [1, 0, "buy", 50],
+      [2, 0, "sell", 50],
+      [2, 1, "buy", 25],
+      [3, 0, "buy", 40],
+      [3, 1, "sell", 25],
+    ])
+    expect(result.equity).toEqual([1000, 1000, 1000, 1000])
+  })
+
+  it("trades the spread of the most correlated pair until it narrows", () => {
+    // Currencies 0 and 1 move together over the formation window and currency 2 against them
+    const result = runBacktest(
+      simulation([
+        [100, 110, 100, 110, 100, 125, 100],
+        [100, 110, 100, 110, 100, 100, 100],
+        [100, 90, 100, 90, 100, 100, 100],
+      ]),
+      "pairs-trading",
+      { initialCapital: 1000, transactionFee: 0, lookback: 4, entryZ: 1.5, exitZ: 0.6 },
+    )
+
+    expect(result.trades.map(({ time, currency, side, quantity }) => [time, currency, side, quantity])).toEqual([
+      [5, 0, "sell", 4],
+      [5, 1, "buy", 5],
+      [6, 0, "buy", 4],
+      [6, 1, "sell", 5],
+    ])
+    expect(result.equity).toEqual([1000, 1000, 1000, 1000, 1000, 1000, 1100])
+    expect(result.netPnl).toBe(100)
+  })
+})
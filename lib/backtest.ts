@@ -0,0 +1,224 @@
+import { correlation, mean } from "./statistics"
+import type { BacktestResult, SimulationData, SimulationResult, StrategyId, Trade } from "./types"
+
+export interface BacktestOptions {
+  initialCapital: number
+  transactionFee: number // Fraction of traded notional charged per fill
+  rebalanceInterval: number // Price points between strategy decisions
+  lookback: number // Price points used for momentum returns and pair statistics
+  entryZ: number // Pairs trading: spread z-score that opens a position
+  exitZ: number // Pairs trading: spread z-score that closes a position
+}
+
+export const defaultBacktestOptions: BacktestOptions = {
+  initialCapital: 10000,
+  transactionFee: 0.0006,
+  rebalanceInterval: 20,
+  lookback: 50,
+  entryZ: 2,
+  exitZ: 0.5,
+}
+
+interface StrategyContext {
+  prices: number[][] // Price series for each currency
+  t: number // Current time index
+  weights: number[] // Current portfolio weights (fraction of equity per currency)
+  options: BacktestOptions
+}
+
+interface Strategy {
+  id: StrategyId
+  label: string
+  description: string
+  // Target portfolio weights at time t, or null to keep the current holdings
+  targetWeights: (ctx: StrategyContext) => number[] | null
+}
+
+const buyAndHold: Strategy = {
+  id: "buy-and-hold",
+  label: "Buy & Hold",
+  description: "Invests equally in every currency once and never trades again.",
+  targetWeights: ({ prices, t }) => (t === 0 ? equalWeights(prices.length) : null),
+}
+
+const equalWeight: Strategy = {
+  id: "equal-weight",
+  label: "Equal-Weight Rebalancing",
+  description: "Rebalances back to equal weights every rebalance interval.",
+  targetWeights: ({ prices, t, options }) => (t % options.rebalanceInterval === 0 ? equalWeights(prices.length) : null),
+}
+
+const momentum: Strategy = {
+  id: "momentum",
+  label: "Momentum",
+  description: "Holds the top half of currencies by lookback return, staying in cash when none are rising.",
+  targetWeights: ({ prices, t, options }) => {
+    if (t < options.lookback || t % options.rebalanceInterval !== 0) return null
+
+    const returns = prices.map((series) => series[t] / series[t - options.lookback] - 1)
+    const nWinners = Math.ceil(prices.length / 2)
+    const winners = returns
+      .map((r, i) => ({ r, i }))
+      .filter(({ r }) => r > 0)
+      .sort((a, b) => b.r - a.r)
+      .slice(0, nWinners)
+
+    const weights = new Array(prices.length).fill(0)
+    for (const { i } of winners) {
+      weights[i] = 1 / winners.length
+    }
+    return weights
+  },
+}
+
+const pairsTrading: Strategy = {
+  id: "pairs-trading",
+  label: "Pairs Trading",
+  description:
+    "Trades the spread between the two most correlated currencies, shorting the rich leg and buying the cheap one.",
+  targetWeights: ({ prices, t, weights, options }) => {
+    if (prices.length < 2 || t < options.lookback) return null
+
+    // The pair is chosen from the formation window before trading starts
+    const [a, b] = findMostCorrelatedPair(prices, options.lookback)
+    const spread = (i: number) => Math.log(prices[a][i]) - Math.log(prices[b][i])
+
+    const window = []
+    for (let i = t - options.lookback + 1; i <= t; i++) {
+      window.push(spread(i))
+    }
+    const spreadMean = mean(window)
+    const std = Math.sqrt(mean(window.map((s) => (s - spreadMean) ** 2)))
+    if (std === 0) return null
+
+    const z = (spread(t) - spreadMean) / std
+    const inPosition = weights[a] !== 0 || weights[b] !== 0
+
+    const target = new Array(prices.length).fill(0)
+    if (!inPosition && Math.abs(z) > options.entryZ) {
+      // Spread is wide: short the expensive leg, buy the cheap one
+      target[a] = z > 0 ? -0.5 : 0.5
+      target[b] = z > 0 ? 0.5 : -0.5
+      return target
+    }
+    if (inPosition && Math.abs(z) < options.exitZ) {
+      return target
+    }
+    return null
+  },
+}
+
+export const strategies: Record<StrategyId, Strategy> = {
+  "buy-and-hold": buyAndHold,
+  "equal-weight": equalWeight,
+  momentum,
+  "pairs-trading": pairsTrading,
+}
+
+// Run a single strategy over the price paths of one simulation
+export function runBacktest(
+  simulation: SimulationData,
+  strategyId: StrategyId,
+  options: Partial<BacktestOptions> = {},
+): BacktestResult {
+  const opts = { ...defaultBacktestOptions, ...options }
+  const strategy = strategies[strategyId]
+  const prices = simulation.samples
+  const nCurrencies = prices.length
+  const nSteps = prices[0]?.length ?? 0
+
+  let cash = opts.initialCapital
+  const holdings = new Array(nCurrencies).fill(0)
+  const equity: number[] = []
+  const trades: Trade[] = []
+  let fees = 0
+
+  for (let t = 0; t < nSteps; t++) {
+    const value = cash + holdings.reduce((sum, units, c) => sum + units * prices[c][t], 0)
+    const weights = holdings.map((units, c) => (value > 0 ? (units * prices[c][t]) / value : 0))
+
+    const target = value > 0 ? strategy.targetWeights({ prices, t, weights, options: opts }) : null
+    if (target) {
+      for (let c = 0; c < nCurrencies; c++) {
+        const price = prices[c][t]
+        const delta = (target[c] * value) / price - holdings[c]
+
+        // Ignore dust trades caused by floating point noise
+        if (Math.abs(delta * price) < value * 1e-9) continue
+
+        const fee = Math.abs(delta * price) * opts.transactionFee
+        cash -= delta * price + fee
+        holdings[c] += delta
+        fees += fee
+
+        trades.push({
+          time: t,
+          currency: c,
+          side: delta > 0 ? "buy" : "sell",
+          quantity: Math.abs(delta),
+          price,
+          fee,
+        })
+      }
+    }
+
+    equity.push(cash + holdings.reduce((sum, units, c) => sum + units * prices[c][t], 0))
+  }
+
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1] : opts.initialCapital
+  const netPnl = finalEquity - opts.initialCapital
+
+  return {
+    strategy: strategyId,
+    equity,
+    trades,
+    fees,
+    netPnl,
+    returnPct: netPnl / opts.initialCapital,
+  }
+}
+
+// Run a strategy over every simulation, charging the fee the simulation was configured with
+export function runBacktests(
+  results: SimulationResult,
+  strategyId: StrategyId,
+  options: Partial<BacktestOptions> = {},
+): BacktestResult[] {
+  return results.simulations.map((simulation) =>
+    runBacktest(simulation, strategyId, { transactionFee: results.params.transactionFee, ...options }),
+  )
+}
+
+function equalWeights(n: number): number[] {
+  return new Array(n).fill(1 / n)
+}
+
+const pairCache = new WeakMap<number[][], { window: number; pair: [number, number] }>()
+
+// Find the pair of currencies whose log returns are most correlated over the first `window` points
+function findMostCorrelatedPair(prices: number[][], window: number): [number, number] {
+  const cached = pairCache.get(prices)
+  if (cached && cached.window === window) return cached.pair
+
+  const returns = prices.map((series) => {
+    const r = []
+    for (let i = 1; i <= Math.min(window, series.length - 1); i++) {
+      r.push(Math.log(series[i] / series[i - 1]))
+    }
+    return r
+  })
+
+  let best: [number, number] = [0, 1]
+  let bestCorrelation = -Infinity
+  for (let i = 0; i < returns.length; i++) {
+    for (let j = i + 1; j < returns.length; j++) {
+      const corr = correlation(returns[i], returns[j])
+      if (corr > bestCorrelation) {
+        bestCorrelation = corr
+        best = [i, j]
+      }
+    }
+  }
+  pairCache.set(prices, { window, pair: best })
+  return best
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+
+import { calibratedFormValues, type Calibration } from "./calibration"
+import { resolveEvents } from "./events"
+import { defaultFormValues } from "./simulation-schema"
+
+const structure = { variances: [0.01], correlation: [[1]] }
+const hourly: Calibration = {
+  timeStep: "hour",
+  observations: 1000,
+  gaps: 0,
+  assets: [
+    {
+      name: "BTC",
+      lastClose: 60000,
+      drift: 0.1,
+      volatility: 0.6,
+      rangeVolatility: 0.55,
+      jumps: 0,
+      diagnostics: {
+        skewness: 0,
+        excessKurtosis: 0,
+        ksDistance: 0.01,
+        ksCritical: 0.04,
+        autocorrelation: 0,
+        squaredAutocorrelation: 0,
+      },
+    },
+  ],
+  trendStructure: structure,
+  volatilityStructure: structure,
+  jumps: null,
+}
+
+describe("calibratedFormValues", () => {
+  it("keeps rescaled events within the rescaled observations", () => {
+    // 6029 minutes round to 100 hours, while the event would end on hour 101
+    const values = calibratedFormValues(hourly, {
+      ...defaultFormValues,
+      timeStep: "minute",
+      nObservations: 6029,
+      events: [
+        { name: "Late", probability: 1, start: 5999, duration: 30, meanShocks: [-0.1], decay: "step" },
+        { name: "Early", probability: 1, start: 10, duration: 60, meanShocks: [-0.1], decay: "step" },
+        { name: "Long", probability: 1, duration: 6000, meanShocks: [-0.1], decay: "step" },
+      ],
+    })
+
+    expect(values.nObservations).toBe(100)
+    expect(values.events?.map(({ start, duration }) => [start, duration])).toEqual([
+      [99, 1],
+      [1, 1],
+      [undefined, 99],
+    ])
+    const { engine: _engine, ...params } = values
+    expect(() => resolveEvents(params)).not.toThrow()
+  })
+})
@@ -0,0 +1,351 @@
+import { resizeAssets } from "./assets"
+import { STEPS_PER_YEAR, defaultVolatilityWindow } from "./engine"
+import { defaultModelParams, models } from "./models"
+import type { SimulationFormValues } from "./simulation-schema"
+import { correlation, mean, standardDeviation } from "./statistics"
+import type { CorrelationStructure, TimeStep } from "./types"
+
+// One OHLCV candle
+export interface Candle {
+  time: number // Unix time in milliseconds
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// Candles of one asset, named after the file they came from
+export interface CandleSeries {
+  name: string
+  candles: Candle[]
+}
+
+// How well the calibrated model describes one asset's history
+export interface FitDiagnostics {
+  skewness: number // Of all log returns; 0 for the normal returns GBM assumes
+  excessKurtosis: number // Of all log returns; fat tails show up as values well above 0
+  ksDistance: number // Kolmogorov-Smirnov distance of the returns without jumps from the fitted normal
+  ksCritical: number // 5% critical value of that distance; larger distances reject the normal fit
+  autocorrelation: number // Lag-1 autocorrelation of log returns; GBM assumes 0
+  squaredAutocorrelation: number // Lag-1 autocorrelation of squared returns; > 0 points to volatility clustering
+}
+
+export interface AssetCalibration {
+  name: string
+  lastClose: number
+  drift: number // Annualized drift μ of the calibrated model
+  volatility: number // Annualized volatility of the returns without jumps
+  rangeVolatility: number // Annualized Parkinson estimate from the high-low range, for comparison
+  jumps: number // Returns flagged as jumps
+  diagnostics: FitDiagnostics
+}
+
+// Merton jump parameters pooled over every asset
+export interface JumpCalibration {
+  lambda: number // Jumps per year
+  mean: number // Mean log-return of a jump
+  std: number // Standard deviation of a jump's log-return
+}
+
+export interface Calibration {
+  timeStep: TimeStep
+  observations: number // Candles shared by every asset
+  gaps: number // Intervals between shared candles longer than 1.5 time steps
+  assets: AssetCalibration[]
+  trendStructure: CorrelationStructure // Uncertainty of the drift estimates and their return correlation
+  volatilityStructure: CorrelationStructure // Spread and correlation of volatility across windows of the history
+  jumps: JumpCalibration | null // null when no jumps were found
+}
+
+// Returns further than this many robust standard deviations from the median are treated as jumps
+const JUMP_THRESHOLD = 4
+// Fewer shared returns than this leave the estimates meaningless
+const MIN_RETURNS = 30
+// Duration of each time step in milliseconds, used to infer the step of uploaded candles
+const STEP_MILLISECONDS: Record<TimeStep, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+}
+
+const COLUMN_NAMES: Record<keyof Candle, string[]> = {
+  time: ["timestamp", "time", "date", "datetime", "open_time"],
+  open: ["open"],
+  high: ["high"],
+  low: ["low"],
+  close: ["close"],
+  volume: ["volume"],
+}
+
+// Read candles from a CSV with a header row naming the timestamp, open, high, low, close and
+// volume columns. Timestamps may be ISO dates or Unix times in seconds or milliseconds.
+export function parseCandles(csv: string, name: string): Candle[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "")
+  if (lines.length < 2) throw new Error(`${name} has no candles.`)
+
+  const header = lines[0].split(",").map((field) => field.trim().replace(/^"|"$/g, "").toLowerCase())
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_NAMES).map(([key, names]) => {
+      const index = header.findIndex((field) => names.includes(field))
+      if (index < 0) throw new Error(`${name} has no ${names[0]} column.`)
+      return [key, index]
+    }),
+  ) as Record<keyof Candle, number>
+
+  const candles = lines.slice(1).map((line, i) => {
+    const fields = line.split(",").map((field) => field.trim().replace(/^"|"$/g, ""))
+    const row = `${name}, row ${i + 2}`
+    const number = (key: Exclude<keyof Candle, "time">) => {
+      const value = Number(fields[columns[key]])
+      if (fields[columns[key]] === undefined || fields[columns[key]] === "" || !Number.isFinite(value)) {
+        throw new Error(`${row}: ${key} "${fields[columns[key]] ?? ""}" is not a number.`)
+      }
+      return value
+    }
+
+    const candle = {
+      time: parseTimestamp(fields[columns.time], row),
+      open: number("open"),
+      high: number("high"),
+      low: number("low"),
+      close: number("close"),
+      volume: number("volume"),
+    }
+    if (!(candle.low > 0) || candle.high < candle.low || candle.close <= 0) {
+      throw new Error(`${row}: prices must be positive with high >= low.`)
+    }
+    return candle
+  })
+
+  // Files are often newest first; duplicates keep the last row
+  const byTime = new Map(candles.map((candle) => [candle.time, candle]))
+  return [...byTime.values()].sort((a, b) => a.time - b.time)
+}
+
+function parseTimestamp(raw: string | undefined, row: string): number {
+  if (raw !== undefined && /^\d+(\.\d+)?$/.test(raw)) {
+    const value = Number(raw)
+    // Unix times in seconds stay below 1e11 until the year 5138
+    return value < 1e11 ? value * 1000 : value
+  }
+
+  const time = raw ? Date.parse(raw) : NaN
+  if (Number.isNaN(time)) throw new Error(`${row}: "${raw ?? ""}" is not a timestamp.`)
+  return time
+}
+
+// Estimate the simulation parameters from the candles of several assets. Only timestamps
+// present in every series are used, so the returns line up across assets.
+export function calibrate(series: CandleSeries[]): Calibration {
+  if (series.length === 0) throw new Error("Upload at least one candle file.")
+  if (series.length > 20) throw new Error(`At most 20 assets can be simulated (got ${series.length}).`)
+
+  const shared = series
+    .map(({ candles }) => new Set(candles.map((candle) => candle.time)))
+    .reduce((common, times) => new Set([...common].filter((time) => times.has(time))))
+  const times = [...shared].sort((a, b) => a - b)
+  if (times.length - 1 < MIN_RETURNS) {
+    throw new Error(`The files share only ${times.length} timestamps; at least ${MIN_RETURNS + 1} are needed.`)
+  }
+
+  const timeStep = inferTimeStep(times)
+  const dt = 1 / STEPS_PER_YEAR[timeStep]
+  const gaps = times.slice(1).filter((time, i) => time - times[i] > 1.5 * STEP_MILLISECONDS[timeStep]).length
+
+  const aligned = series.map(({ candles }) => {
+    const byTime = new Map(candles.map((candle) => [candle.time, candle]))
+    return times.map((time) => byTime.get(time)!)
+  })
+  const returns = aligned.map((candles) =>
+    candles.slice(1).map((candle, t) => Math.log(candle.close / candles[t].close)),
+  )
+  const jumpFlags = returns.map(detectJumps)
+
+  // Jumps are pooled, since the Merton model shares its jump parameters between currencies
+  const jumpReturns = returns.flatMap((r, c) => r.filter((_, t) => jumpFlags[c][t]))
+  const years = returns[0].length * dt
+  const jumps =
+    jumpReturns.length > 0
+      ? {
+          lambda: jumpReturns.length / (series.length * years),
+          mean: mean(jumpReturns),
+          std: jumpReturns.length > 1 ? standardDeviation(jumpReturns) : 0,
+        }
+      : null
+  // Merton's drift compensation adds λk per year and the jumps themselves contribute λ·mean
+  const jumpDrift = jumps ? jumps.lambda * (Math.exp(jumps.mean + 0.5 * jumps.std ** 2) - 1 - jumps.mean) : 0
+
+  const assets = series.map(({ name }, c) => {
+    const diffusion = returns[c].filter((_, t) => !jumpFlags[c][t])
+    const volatility = standardDeviation(diffusion) / Math.sqrt(dt)
+    const ranges = aligned[c].map((candle) => Math.log(candle.high / candle.low) ** 2)
+
+    return {
+      name,
+      lastClose: aligned[c][aligned[c].length - 1].close,
+      // Mean log-return per year is μ - σ²/2 plus the jump terms, solved for μ
+      drift: mean(returns[c]) / dt + 0.5 * volatility ** 2 + jumpDrift,
+      volatility,
+      rangeVolatility: Math.sqrt(mean(ranges) / (4 * Math.LN2) / dt),
+      jumps: jumpFlags[c].filter(Boolean).length,
+      diagnostics: diagnostics(returns[c], diffusion),
+    }
+  })
+
+  // Drift estimates are uncertain by σ²/T, correlated like the returns themselves
+  const trendStructure = {
+    variances: returns.map((r) => standardDeviation(r) ** 2 / dt / years),
+    correlation: correlationMatrix(returns),
+  }
+
+  // Realized volatility over consecutive windows of about 30 days, at least three of them
+  const nReturns = returns[0].length
+  const nWindows = Math.max(3, Math.floor(nReturns / defaultVolatilityWindow(timeStep)))
+  const windowLength = Math.floor(nReturns / nWindows)
+  const windowVolatilities = returns.map((r, c) =>
+    Array.from({ length: nWindows }, (_, w) => {
+      const window = r
+        .slice(w * windowLength, (w + 1) * windowLength)
+        .filter((_, t) => !jumpFlags[c][w * windowLength + t])
+      return standardDeviation(window) / Math.sqrt(dt)
+    }),
+  )
+  const volatilityStructure = {
+    variances: windowVolatilities.map((v) => standardDeviation(v) ** 2),
+    correlation: correlationMatrix(windowVolatilities),
+  }
+
+  return { timeStep, observations: times.length, gaps, assets, trendStructure, volatilityStructure, jumps }
+}
+
+// Form values with the calibrated estimates filled in. Drift and volatility become per-asset
+// overrides; the structures describe how they vary if the overrides are cleared.
+export function calibratedFormValues(calibration: Calibration, current: SimulationFormValues): SimulationFormValues {
+  const n = calibration.assets.length
+  const assets = resizeAssets(current.assets, n).map((asset, c) => {
+    const calibrated = calibration.assets[c]
+    return {
+      ...asset,
+      name: calibrated.name.slice(0, 20),
+      initialPrice: calibrated.lastClose,
+      drift: calibrated.drift,
+      volatility: calibrated.volatility * 100,
+    }
+  })
+  const meanVolatility = mean(calibration.assets.map((asset) => asset.volatility)) * 100
+  const { jumps } = calibration
+  // Estimates outside the ranges the form accepts are clamped to them
+  const jumpParam = (key: string, value: number) => {
+    const { min, max } = models.merton.parameters.find((p) => p.key === key)!
+    return clamp(value, min, max)
+  }
+
+  // Counts of observations keep their calendar length under the calibrated time step
+  const rescale = (count: number, min: number) =>
+    Math.max(min, Math.round((count * STEP_MILLISECONDS[current.timeStep]) / STEP_MILLISECONDS[calibration.timeStep]))
+
+  // Rounding can push an event past the end, so it is kept within the rescaled observations,
+  // starting no earlier than observation 1
+  const nObservations = rescale(current.nObservations, 100)
+  const fitDuration = (duration: number) => Math.min(rescale(duration, 1), nObservations - 1)
+
+  return {
+    ...current,
+    timeStep: calibration.timeStep,
+    nObservations,
+    volatilityWindow: rescale(current.volatilityWindow, 2),
+    extremeEventDuration: fitDuration(current.extremeEventDuration),
+    events: current.events?.map((event) => {
+      const duration = fitDuration(event.duration)
+      const start = event.start === undefined ? undefined : clamp(rescale(event.start, 1), 1, nObservations - duration)
+      return { ...event, start, duration }
+    }),
+    nCurrencies: n,
+    volatility: clamp(meanVolatility, 0.1, 20),
+    trendStructure: calibration.trendStructure,
+    volatilityStructure: calibration.volatilityStructure,
+    assets,
+    ...(jumps
+      ? {
+          model: "merton" as const,
+          modelParams: {
+            lambda: jumpParam("lambda", jumps.lambda),
+            jumpMean: jumpParam("jumpMean", jumps.mean),
+            jumpStd: jumpParam("jumpStd", jumps.std),
+          },
+        }
+      : { model: "gbm" as const, modelParams: defaultModelParams("gbm") }),
+  }
+}
+
+// The time step closest to the median spacing of the timestamps
+function inferTimeStep(times: number[]): TimeStep {
+  const spacings = times
+    .slice(1)
+    .map((time, i) => time - times[i])
+    .sort((a, b) => a - b)
+  const median = spacings[Math.floor(spacings.length / 2)]
+  const steps = Object.keys(STEP_MILLISECONDS) as TimeStep[]
+  return steps.reduce((best, step) =>
+    Math.abs(Math.log(median / STEP_MILLISECONDS[step])) < Math.abs(Math.log(median / STEP_MILLISECONDS[best]))
+      ? step
+      : best,
+  )
+}
+
+// Flag returns more than JUMP_THRESHOLD robust standard deviations (scaled median absolute
+// deviation) from the median
+function detectJumps(returns: number[]): boolean[] {
+  const median = medianOf(returns)
+  const robustStd = 1.4826 * medianOf(returns.map((r) => Math.abs(r - median)))
+  if (robustStd === 0) return returns.map(() => false)
+  return returns.map((r) => Math.abs(r - median) > JUMP_THRESHOLD * robustStd)
+}
+
+function diagnostics(returns: number[], diffusion: number[]): FitDiagnostics {
+  const m = mean(returns)
+  const std = standardDeviation(returns)
+  const moment = (k: number) => mean(returns.map((r) => ((r - m) / std) ** k))
+
+  // Kolmogorov-Smirnov distance between the standardized returns and the standard normal
+  const diffusionMean = mean(diffusion)
+  const diffusionStd = standardDeviation(diffusion)
+  const z = diffusion.map((r) => (r - diffusionMean) / diffusionStd).sort((a, b) => a - b)
+  const ksDistance = z.reduce((max, x, i) => {
+    const cdf = normalCdf(x)
+    return Math.max(max, Math.abs((i + 1) / z.length - cdf), Math.abs(i / z.length - cdf))
+  }, 0)
+
+  const squares = returns.map((r) => (r - m) ** 2)
+  return {
+    skewness: moment(3),
+    excessKurtosis: moment(4) - 3,
+    ksDistance,
+    ksCritical: 1.36 / Math.sqrt(z.length),
+    autocorrelation: correlation(returns.slice(1), returns.slice(0, -1)),
+    squaredAutocorrelation: correlation(squares.slice(1), squares.slice(0, -1)),
+  }
+}
+
+function correlationMatrix(series: number[][]): number[][] {
+  return series.map((x, i) => series.map((y, j) => (i === j ? 1 : correlation(x, y))))
+}
+
+// Standard normal CDF via the Abramowitz and Stegun 7.1.26 approximation of erf (error < 1.5e-7)
+function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(x * x) / 2)
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
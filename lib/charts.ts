@@ -0,0 +1,70 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Chart, registerables, type ChartConfiguration, type Plugin, type Point } from "chart.js"
+
+Chart.register(...registerables)
+
+// Shared styling of the dashboard's Chart.js charts
+export const chartTooltip = {
+  mode: "index" as const,
+  intersect: false,
+  backgroundColor: "#1e293b", // slate-800
+  titleColor: "#f8fafc", // slate-50
+  bodyColor: "#f8fafc", // slate-50
+  borderColor: "#475569", // slate-600
+  borderWidth: 1,
+}
+
+export const chartAxis = (title: string) => ({
+  title: { display: true, text: title, color: "#cbd5e1" }, // slate-300
+  grid: { color: "#334155" }, // slate-700
+  ticks: { color: "#cbd5e1" }, // slate-300
+})
+
+// Linear x axis in observations, so unevenly sampled points sit at their real time
+export const timeAxis = (time: number[]) => ({
+  ...chartAxis("Time Step"),
+  type: "linear" as const,
+  min: time[0],
+  max: time[time.length - 1],
+})
+
+// Pair sampled values with the observation index each was taken at
+export function timeSeries(time: number[], values: number[]): Point[] {
+  return values.map((y, t) => ({ x: time[t], y }))
+}
+
+// Shades observation ranges behind the datasets, e.g. the events that fired in a simulation.
+// Ranges are at least 2px wide so that short events stay visible on long runs.
+export function shadeRanges(ranges: { start: number; end: number }[], color: string): Plugin<"line"> {
+  return {
+    id: "shadeRanges",
+    beforeDatasetsDraw(chart) {
+      const { ctx, chartArea, scales } = chart
+      ctx.save()
+      ctx.fillStyle = color
+      for (const { start, end } of ranges) {
+        const left = Math.max(scales.x.getPixelForValue(start), chartArea.left)
+        const right = Math.min(Math.max(scales.x.getPixelForValue(end), left + 2), chartArea.right)
+        if (right > left) ctx.fillRect(left, chartArea.top, right - left, chartArea.bottom - chartArea.top)
+      }
+      ctx.restore()
+    },
+  }
+}
+
+// Draws a chart into the returned canvas ref and redraws it whenever the config changes
+export function useChart(config: ChartConfiguration | null) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!config || !ctx) return
+
+    const chart = new Chart(ctx, config)
+    return () => chart.destroy()
+  }, [config])
+
+  return canvasRef
+}
@@ -0,0 +1,35 @@
+import type { SimulationParams } from "./types"
+
+export interface ParamDiff {
+  field: string // Dotted path into SimulationParams, e.g. "modelParams.kappa" or "assets[0].name"
+  a: string // Formatted value in the first run, "—" when unset
+  b: string
+  differs: boolean
+}
+
+// Every field of two parameter sets side by side. Nested objects are expanded into dotted
+// paths so a changed asset or model parameter shows up on its own row; matrices are compared whole.
+export function diffParams(a: SimulationParams, b: SimulationParams): ParamDiff[] {
+  const left = flatten(a)
+  const right = flatten(b)
+  const fields = [...new Set([...Object.keys(left), ...Object.keys(right)])]
+
+  return fields.map((field) => {
+    const valueA = left[field] ?? "—"
+    const valueB = right[field] ?? "—"
+    return { field, a: valueA, b: valueB, differs: valueA !== valueB }
+  })
+}
+
+function flatten(value: unknown, path = "", out: Record<string, string> = {}): Record<string, string> {
+  if (Array.isArray(value) && value.some((item) => typeof item === "object" && item !== null && !Array.isArray(item))) {
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out))
+  } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) flatten(item, path ? `${path}.${key}` : key, out)
+    }
+  } else {
+    out[path] = typeof value === "string" ? value : JSON.stringify(value)
+  }
+  return out
+}
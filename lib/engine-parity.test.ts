@@ -0,0 +1,220 @@
+import { spawnSync } from "node:child_process"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import { SAMPLE_POINTS, downsampleIndices, runEngine } from "./engine"
+import { MODEL_IDS, defaultModelParams } from "./models"
+import { pythonEngineConfig } from "./python-engine"
+import { createRandomStream } from "./random"
+import { correlation, mean, standardDeviation } from "./statistics"
+import type { ModelId, SimulationData, SimulationParams } from "./types"
+
+// The engines draw from different generators (xoshiro128** here, NumPy's PCG64 in
+// lib/python/engine.py), so their paths only agree in distribution. Every run is seeded, so the
+// checks are deterministic; the tolerances are about four standard errors of each statistic.
+
+const hasNumpy = spawnSync("python3", ["-c", "import numpy"]).status === 0
+
+const baseParams: SimulationParams = {
+  randomSeed: 7,
+  nSimulations: 200,
+  // Within SAMPLE_POINTS, so the returned prices are the full paths
+  nObservations: 400,
+  timeStep: "day",
+  basePrice: 1000,
+  nCurrencies: 3,
+  transactionFee: 0,
+  variance: 0.04,
+  covariance: 0.02,
+  volatility: 60,
+  volatilityCovariance: 180,
+  extremeEventProbability: 0,
+  extremeEventVariance: 100,
+  extremeEventCovariance: 50,
+  extremeEventDuration: 1,
+  events: [{ name: "Crash", probability: 0.5, duration: 20, meanShocks: [-0.3, -0.3, -0.3], decay: "linear" }],
+}
+
+// Price paths of one seeded simulation from the scalar loop the Python engine replaced and from
+// the vectorized engine, as built by scripts/benchmark-python-engine.py
+function runVectorizationBenchmark(model: ModelId, nObservations: number): [number[][], number[][]] {
+  const script = [
+    "import importlib.util, json, sys",
+    "spec = importlib.util.spec_from_file_location('benchmark', 'scripts/benchmark-python-engine.py')",
+    "benchmark = importlib.util.module_from_spec(spec)",
+    "spec.loader.exec_module(benchmark)",
+    "implementations = [benchmark.legacy_simulate_price_paths, benchmark.vectorized_simulate_price_paths]",
+    "model, n_observations = sys.argv[1], int(sys.argv[2])",
+    "print(json.dumps([benchmark.simulate(f, model, n_observations, 0)[0].tolist() for f in implementations]))",
+  ].join("\n")
+  const result = spawnSync("python3", ["-c", script, model, String(nObservations)], {
+    encoding: "utf8",
+    maxBuffer: 1 << 28,
+  })
+  if (result.status !== 0) throw new Error(result.stderr)
+  return JSON.parse(result.stdout)
+}
+
+// Run lib/python/engine.py with the config the Pyodide worker would pass it
+function runPython(params: SimulationParams): SimulationData[] {
+  const script = [
+    "import json, sys",
+    "sys.path.insert(0, 'lib/python')",
+    "from engine import run_simulations",
+    "print(json.dumps(run_simulations(json.load(sys.stdin)), default=lambda value: value.item()))",
+  ].join("\n")
+  // Maps become dicts; NaN overrides become null, which NumPy reads back as NaN
+  const config = JSON.stringify(pythonEngineConfig(params), (_, value) =>
+    value instanceof Map ? Object.fromEntries(value) : value,
+  )
+  const result = spawnSync("python3", ["-c", script], { input: config, encoding: "utf8", maxBuffer: 1 << 28 })
+  if (result.status !== 0) throw new Error(result.stderr)
+  return JSON.parse(result.stdout)
+}
+
+function logReturns(simulations: SimulationData[]): number[][] {
+  return simulations.flatMap((sim) => sim.prices.map((path) => path.slice(1).map((p, t) => Math.log(p / path[t]))))
+}
+
+// Two-sample Kolmogorov-Smirnov statistic: the largest gap between the empirical CDFs
+function ksStatistic(a: number[], b: number[]): number {
+  const x = [...a].sort((p, q) => p - q)
+  const y = [...b].sort((p, q) => p - q)
+  let i = 0
+  let j = 0
+  let d = 0
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j])
+    while (i < x.length && x[i] <= value) i++
+    while (j < y.length && y[j] <= value) j++
+    d = Math.max(d, Math.abs(i / x.length - j / y.length))
+  }
+  return d
+}
+
+// KS critical value at the 0.1% level for samples of n and m independent values
+function ksCritical(n: number, m: number): number {
+  return 1.95 * Math.sqrt((n + m) / (n * m))
+}
+
+describe.skipIf(!hasNumpy)("TypeScript and Python engine parity", () => {
+  describe.each(MODEL_IDS)("%s", (model: ModelId) => {
+    const params: SimulationParams = { ...baseParams, model, modelParams: defaultModelParams(model) }
+    let typescript: SimulationData[]
+    let python: SimulationData[]
+
+    beforeAll(() => {
+      typescript = runEngine(params).simulations
+      python = runPython(params)
+    }, 60_000)
+
+    it("returns the same shape", () => {
+      expect(python).toHaveLength(typescript.length)
+      expect(python[0].time).toEqual(typescript[0].time)
+      expect(python[0].prices.map((path) => path.length)).toEqual(typescript[0].prices.map((path) => path.length))
+      expect(python[0].samples.map((path) => path.length)).toEqual(typescript[0].samples.map((path) => path.length))
+    })
+
+    it("draws log-returns from the same distribution", () => {
+      const tsPaths = logReturns(typescript)
+      const pyPaths = logReturns(python)
+      // Returns within a path share its volatility, so only paths count as independent samples
+      expect(ksStatistic(tsPaths.flat(), pyPaths.flat())).toBeLessThan(ksCritical(tsPaths.length, pyPaths.length))
+
+      const tsStd = tsPaths.map(standardDeviation)
+      const pyStd = pyPaths.map(standardDeviation)
+      expect(ksStatistic(tsStd, pyStd)).toBeLessThan(ksCritical(tsStd.length, pyStd.length))
+      expect(Math.abs(mean(pyStd) / mean(tsStd) - 1)).toBeLessThan(0.12)
+    })
+
+    it("fires events as often and at the same times", () => {
+      const fired = (sims: SimulationData[]) => sims.filter((sim) => sim.events.length > 0).length / sims.length
+      expect(Math.abs(fired(typescript) - fired(python))).toBeLessThan(0.2)
+
+      const starts = (sims: SimulationData[]) => sims.flatMap((sim) => sim.events.map((o) => o.start))
+      const tsStarts = starts(typescript)
+      const pyStarts = starts(python)
+      expect(ksStatistic(tsStarts, pyStarts)).toBeLessThan(ksCritical(tsStarts.length, pyStarts.length))
+      for (const start of [...tsStarts, ...pyStarts]) {
+        expect(start).toBeGreaterThanOrEqual(1)
+        expect(start + 20).toBeLessThanOrEqual(params.nObservations)
+      }
+    })
+
+    it("correlates trends, volatilities and event shocks alike", () => {
+      const pairs: [number, number][] = [
+        [0, 1],
+        [0, 2],
+        [1, 2],
+      ]
+      for (const [a, b] of pairs) {
+        const trends = (sims: SimulationData[]) =>
+          correlation(
+            sims.map((sim) => sim.trends[a]),
+            sims.map((sim) => sim.trends[b]),
+          )
+        const volatilities = (sims: SimulationData[]) =>
+          correlation(
+            sims.map((sim) => sim.volatilities[a]),
+            sims.map((sim) => sim.volatilities[b]),
+          )
+        // Both engines sample the configured correlation of 0.5
+        expect(Math.abs(trends(typescript) - trends(python))).toBeLessThan(0.3)
+        expect(Math.abs(volatilities(typescript) - volatilities(python))).toBeLessThan(0.3)
+        expect(Math.abs(trends(typescript) - 0.5)).toBeLessThan(0.2)
+        expect(Math.abs(trends(python) - 0.5)).toBeLessThan(0.2)
+      }
+
+      const shocks = (sims: SimulationData[]) => sims.flatMap((sim) => sim.events.flatMap((o) => o.shocks))
+      // Mean -0.3 and standard deviation 0.1, from extremeEventVariance / 10000
+      for (const values of [shocks(typescript), shocks(python)]) {
+        expect(Math.abs(mean(values) + 0.3)).toBeLessThan(0.05)
+        expect(Math.abs(standardDeviation(values) - 0.1)).toBeLessThan(0.03)
+      }
+    })
+  })
+})
+
+describe.skipIf(!hasNumpy)("Python downsampling", () => {
+  it("keeps the same points as downsampleIndices", () => {
+    const random = createRandomStream(7)
+    const paths = Array.from({ length: 20 }, () => {
+      let price = 1000
+      return Array.from({ length: 20_000 }, () => (price *= Math.exp(0.01 * random.normal())))
+    })
+    const script = [
+      "import json, sys",
+      "import numpy as np",
+      "sys.path.insert(0, 'lib/python')",
+      "from engine import downsample_indices",
+      "print(json.dumps(downsample_indices(np.array(json.load(sys.stdin)), int(sys.argv[1])).tolist()))",
+    ].join("\n")
+    const result = spawnSync("python3", ["-c", script, String(SAMPLE_POINTS)], {
+      input: JSON.stringify(paths),
+      encoding: "utf8",
+      maxBuffer: 1 << 28,
+    })
+    if (result.status !== 0) throw new Error(result.stderr)
+
+    expect(JSON.parse(result.stdout)).toEqual(downsampleIndices(paths, SAMPLE_POINTS))
+  })
+})
+
+describe.skipIf(!hasNumpy)("Vectorized Python engine", () => {
+  it.each(MODEL_IDS.filter((model) => model !== "merton"))("reproduces the %s paths of the scalar loop", (model) => {
+    const [legacy, vectorized] = runVectorizationBenchmark(model, 2000)
+    legacy.forEach((path, c) => {
+      path.forEach((price, t) => expect(Math.abs(vectorized[c][t] / price - 1)).toBeLessThan(1e-9))
+    })
+  })
+
+  // Merton draws its jumps in blocks instead of interleaved with the diffusion shocks
+  it("draws merton log-returns from the same distribution as the scalar loop", () => {
+    const [legacy, vectorized] = runVectorizationBenchmark("merton", 2000)
+    const returns = (paths: number[][]) => paths.flatMap((path) => path.slice(1).map((p, t) => Math.log(p / path[t])))
+    const legacyReturns = returns(legacy)
+    const vectorizedReturns = returns(vectorized)
+    expect(ksStatistic(legacyReturns, vectorizedReturns)).toBeLessThan(
+      ksCritical(legacyReturns.length, vectorizedReturns.length),
+    )
+  })
+})
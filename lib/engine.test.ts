@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+
+import { SAMPLE_POINTS, downsampleIndices, runEngine } from "./engine"
+import { defaultFormValues } from "./simulation-schema"
+import type { SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+
+describe("downsampleIndices", () => {
+  it("keeps at most the target number of points however many currencies share them", () => {
+    const params: SimulationParams = {
+      ...defaults,
+      nSimulations: 1,
+      nObservations: 100_000,
+      nCurrencies: 20,
+      assets: [],
+    }
+    const { time } = runEngine(params).simulations[0]
+
+    expect(time.length).toBeLessThanOrEqual(SAMPLE_POINTS)
+    // Every one of the SAMPLE_POINTS / 4 buckets keeps its first and last observation
+    const bucket = params.nObservations / (SAMPLE_POINTS / 4)
+    const gaps = time.slice(1).map((t, i) => t - time[i])
+    expect(Math.max(...gaps)).toBeLessThanOrEqual(Math.ceil(bucket))
+    expect(time[0]).toBe(0)
+    expect(time.at(-1)).toBe(params.nObservations - 1)
+  })
+
+  it("keeps a spike in any one currency", () => {
+    const paths = Array.from({ length: 20 }, () => new Array<number>(10_000).fill(100))
+    paths[19][1234] = 60
+    paths[7][8765] = 150
+
+    const time = downsampleIndices(paths, SAMPLE_POINTS)
+    expect(time).toContain(1234)
+    expect(time).toContain(8765)
+  })
+})
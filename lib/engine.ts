@@ -0,0 +1,399 @@
+import { resolveAssets } from "./assets"
+import { resolveEvents, type ResolvedEvent } from "./events"
+import { correlationToCovariance, covarianceFactor, multiply, validateCorrelationMatrix } from "./linear-algebra"
+import { models, resolveModelParams, type ProcessModel } from "./models"
+import { createRandomStream, type RandomStream } from "./random"
+import type {
+  AssetConfig,
+  CorrelationStructure,
+  EventOccurrence,
+  SimulationData,
+  SimulationEngine,
+  SimulationParams,
+  SimulationResult,
+  TimeStep,
+} from "./types"
+
+// Observations per year for each time step. Crypto markets trade around the clock,
+// so a year is 365 full days rather than 252 trading days.
+export const STEPS_PER_YEAR: Record<TimeStep, number> = {
+  minute: 365 * 24 * 60,
+  hour: 365 * 24,
+  day: 365,
+}
+
+// Most points kept per price series, both for the charts (see downsampleIndices) and for the
+// analysis (see analysisIndices)
+export const SAMPLE_POINTS = 500
+
+// Version of the simulation code shared by this engine and lib/python/engine.py, recorded with
+// every result. Bump it whenever the same parameters and seed would produce different paths.
+export const ENGINE_VERSION = "1.3.0"
+
+export const ENGINE_LABELS: Record<SimulationEngine, string> = {
+  python: "Python (Pyodide)",
+  server: "TypeScript (server)",
+  client: "TypeScript (browser)",
+}
+
+export const ENGINE_IDS = Object.keys(ENGINE_LABELS) as [SimulationEngine, ...SimulationEngine[]]
+
+// Default rolling realized volatility window: 30 days of observations
+export function defaultVolatilityWindow(timeStep: TimeStep): number {
+  return Math.round((STEPS_PER_YEAR[timeStep] * 30) / 365)
+}
+
+// Validated inputs shared by every simulation of a run
+interface EngineSetup {
+  factors: CovarianceMatrices
+  assets: AssetConfig[]
+  events: ResolvedEvent[]
+  model: ProcessModel
+  modelParams: Record<string, number>
+}
+
+export interface CovarianceMatrices {
+  trend: number[][]
+  volatility: number[][]
+  extremeEvent: number[][]
+}
+
+// Run every simulation for the given parameters. This is the single TypeScript engine
+// shared by the API route and the client-side fallback; the Python engine mirrors it.
+export function runEngine(params: SimulationParams): SimulationResult {
+  return {
+    simulations: [...engineSimulations(params)],
+    params,
+  }
+}
+
+// Run the simulations one at a time, so they can be sent on as soon as each one is done.
+// Validation happens when the first simulation is requested.
+export function* engineSimulations(params: SimulationParams): Generator<SimulationData, void, undefined> {
+  const setup = prepareEngine(params)
+
+  for (let sim = 0; sim < params.nSimulations; sim++) {
+    yield simulatePaths(params, setup, createRandomStream(params.randomSeed, sim))
+  }
+}
+
+// Regenerate one simulation on its own. Each simulation index draws from its own random
+// stream, so the result is identical to the same index inside a full run.
+export function runSingleSimulation(params: SimulationParams, index: number): SimulationData {
+  return simulatePaths(params, prepareEngine(params), createRandomStream(params.randomSeed, index))
+}
+
+// Validate and precompute everything that does not change between simulations
+function prepareEngine(params: SimulationParams): EngineSetup {
+  const modelId = params.model ?? "gbm"
+  return {
+    factors: factorCovariances(resolveCovariances(params)),
+    assets: resolveAssets(params),
+    events: resolveEvents(params),
+    model: models[modelId],
+    modelParams: resolveModelParams(modelId, params.modelParams),
+  }
+}
+
+// Build and validate the trend, volatility and extreme event covariance matrices.
+// Throws a descriptive error when a matrix is inconsistent.
+export function resolveCovariances(params: SimulationParams): CovarianceMatrices {
+  return {
+    trend: resolveCovariance(params, "trend"),
+    volatility: resolveCovariance(params, "volatility"),
+    extremeEvent: resolveCovariance(params, "extremeEvent"),
+  }
+}
+
+// Build and validate one of the covariance matrices, from its structure when one is given
+export function resolveCovariance(params: SimulationParams, kind: keyof CovarianceMatrices): number[][] {
+  const n = params.nCurrencies
+
+  if (kind === "trend") {
+    return params.trendStructure
+      ? structureToCovariance(params.trendStructure, n, "Trend")
+      : equicorrelatedCovariance(n, params.variance, params.covariance, "Trend")
+  }
+  if (kind === "volatility") {
+    const volatilityVariance = (params.volatility / 100) ** 2 * 0.1
+    return params.volatilityStructure
+      ? structureToCovariance(params.volatilityStructure, n, "Volatility")
+      : equicorrelatedCovariance(n, volatilityVariance, params.volatilityCovariance / 10000, "Volatility")
+  }
+  return params.extremeEventStructure
+    ? structureToCovariance(params.extremeEventStructure, n, "Extreme event")
+    : equicorrelatedCovariance(
+        n,
+        params.extremeEventVariance / 10000,
+        params.extremeEventCovariance / 10000,
+        "Extreme event",
+      )
+}
+
+// Equicorrelated structure matching the scalar variance/covariance parameters, used to
+// seed the correlation matrix editor
+export function equicorrelatedStructure(n: number, variance: number, covariance: number): CorrelationStructure {
+  const rho = variance > 0 ? Math.max(-1, Math.min(1, covariance / variance)) : 0
+  return {
+    variances: new Array(n).fill(variance),
+    correlation: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : rho))),
+  }
+}
+
+function equicorrelatedCovariance(n: number, variance: number, covariance: number, label: string): number[][] {
+  if (variance < 0) {
+    throw new Error(`${label} variance must not be negative (got ${variance}).`)
+  }
+  if (n > 1 && Math.abs(covariance) > variance) {
+    throw new Error(
+      `${label} covariance (${covariance.toExponential(3)}) exceeds the ${label.toLowerCase()} variance ` +
+        `(${variance.toExponential(3)}), which implies a correlation outside [-1, 1].`,
+    )
+  }
+
+  const matrix = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? variance : covariance)),
+  )
+  // Negative covariance is only consistent down to -variance / (n - 1)
+  covarianceFactor(matrix, `${label} covariance matrix`)
+  return matrix
+}
+
+function structureToCovariance(structure: CorrelationStructure, n: number, label: string): number[][] {
+  if (structure.variances.length !== n) {
+    throw new Error(`${label} variances must have one entry per currency (expected ${n}, got ${structure.variances.length}).`)
+  }
+  structure.variances.forEach((variance, i) => {
+    if (!Number.isFinite(variance) || variance < 0) {
+      throw new Error(`${label} variance for currency ${i + 1} must be a non-negative number (got ${variance}).`)
+    }
+  })
+  validateCorrelationMatrix(structure.correlation, n, `${label} correlation matrix`)
+
+  return correlationToCovariance(structure.variances, structure.correlation)
+}
+
+function factorCovariances(covariances: CovarianceMatrices): CovarianceMatrices {
+  return {
+    trend: covarianceFactor(covariances.trend),
+    volatility: covarianceFactor(covariances.volatility),
+    extremeEvent: covarianceFactor(covariances.extremeEvent),
+  }
+}
+
+// Simulate one set of correlated price paths using the selected process model plus scheduled event shocks
+function simulatePaths(params: SimulationParams, setup: EngineSetup, random: RandomStream): SimulationData {
+  const { factors, assets, events, model, modelParams } = setup
+  const { nCurrencies, nObservations } = params
+  const dt = 1 / STEPS_PER_YEAR[params.timeStep]
+
+  // Overrides are applied after drawing, so overriding one asset leaves the others' draws unchanged
+  const trends = generateMultivariateNormal(0, factors.trend, random.normal).map(
+    (trend, c) => assets[c].drift ?? trend,
+  )
+
+  // Annualized volatility for each currency (volatility is given in percent)
+  const volatilities = generateMultivariateNormal(params.volatility / 100, factors.volatility, random.normal).map(
+    (v, c) => {
+      const override = assets[c].volatility
+      return override !== undefined ? override / 100 : Math.abs(v)
+    },
+  )
+
+  // Decide which events fire and when. Each shock is the total log-return of the event, spread
+  // over its duration by the event's profile.
+  const occurrences: EventOccurrence[] = []
+  events.forEach((event, index) => {
+    if (random.uniform() >= event.probability) return
+    const start = event.start ?? 1 + Math.floor(random.uniform() * (nObservations - event.duration))
+    const shocks = generateMultivariateNormal(event.meanShocks, factors.extremeEvent, random.normal)
+    occurrences.push({ event: index, start, shocks })
+  })
+
+  const volatilityWindow = params.volatilityWindow ?? defaultVolatilityWindow(params.timeStep)
+  const prices: number[][] = []
+  const samples: number[][] = []
+  const effectiveTrends: number[] = []
+  const realizedVolatility: number[] = []
+  const rollingVolatility: number[][] = []
+  const paths: Float64Array[] = []
+
+  for (let c = 0; c < nCurrencies; c++) {
+    const path = new Float64Array(nObservations)
+    const randomPrice = params.basePrice * (0.5 + random.uniform())
+    path[0] = assets[c].initialPrice ?? randomPrice
+
+    const step = model.createPath({
+      initialPrice: path[0],
+      mu: trends[c],
+      sigma: volatilities[c],
+      dt,
+      params: modelParams,
+    })
+
+    for (let t = 1; t < nObservations; t++) {
+      let price = step(path[t - 1], random)
+
+      for (const { event, start, shocks } of occurrences) {
+        const k = t - start
+        if (k >= 0 && k < events[event].duration) {
+          price *= Math.exp(shocks[c] * events[event].profile[k])
+        }
+      }
+
+      path[t] = Math.max(price, 0.01) // ensure positive prices
+    }
+
+    paths.push(path)
+  }
+
+  // Metrics are computed on the full-resolution paths, before downsampling
+  const time = downsampleIndices(paths, SAMPLE_POINTS)
+  const sampleTimes = analysisIndices(nObservations)
+  for (const path of paths) {
+    realizedVolatility.push(calculateRealizedVolatility(path, params.timeStep) * 100)
+    rollingVolatility.push(calculateRollingVolatility(path, params.timeStep, volatilityWindow, time).map((v) => v * 100))
+    effectiveTrends.push(calculateEffectiveTrend(path, params.timeStep))
+    prices.push(time.map((t) => path[t]))
+    samples.push(sampleTimes.map((t) => path[t]))
+  }
+
+  return {
+    time,
+    prices,
+    samples,
+    trends,
+    volatilities,
+    events: occurrences,
+    realizedVolatility,
+    rollingVolatility,
+    effectiveTrends,
+  }
+}
+
+// Annualized realized volatility from the sample standard deviation of log returns
+export function calculateRealizedVolatility(prices: ArrayLike<number>, timeStep: TimeStep): number {
+  const n = prices.length - 1
+  if (n < 2) return 0
+
+  let sum = 0
+  for (let i = 1; i <= n; i++) {
+    sum += Math.log(prices[i] / prices[i - 1])
+  }
+  const mean = sum / n
+
+  let squares = 0
+  for (let i = 1; i <= n; i++) {
+    squares += Math.pow(Math.log(prices[i] / prices[i - 1]) - mean, 2)
+  }
+
+  return Math.sqrt(squares / (n - 1)) * Math.sqrt(STEPS_PER_YEAR[timeStep])
+}
+
+// Annualized realized volatility over a trailing window of `window` log returns, evaluated at
+// the given observation indices. Points with fewer than two returns behind them are 0.
+export function calculateRollingVolatility(
+  prices: ArrayLike<number>,
+  timeStep: TimeStep,
+  window: number,
+  indices: number[],
+): number[] {
+  // Prefix sums of log returns and their squares make every window O(1)
+  const sums = new Float64Array(prices.length)
+  const squares = new Float64Array(prices.length)
+  for (let t = 1; t < prices.length; t++) {
+    const r = Math.log(prices[t] / prices[t - 1])
+    sums[t] = sums[t - 1] + r
+    squares[t] = squares[t - 1] + r * r
+  }
+
+  const annualization = Math.sqrt(STEPS_PER_YEAR[timeStep])
+  return indices.map((t) => {
+    const k = Math.min(window, t)
+    if (k < 2) return 0
+
+    const mean = (sums[t] - sums[t - k]) / k
+    const variance = (squares[t] - squares[t - k] - k * mean * mean) / (k - 1)
+    return Math.sqrt(Math.max(variance, 0)) * annualization
+  })
+}
+
+// Annualized return over the whole path
+export function calculateEffectiveTrend(prices: ArrayLike<number>, timeStep: TimeStep): number {
+  const totalReturn = prices[prices.length - 1] / prices[0] - 1
+  const timeInYears = (prices.length - 1) / STEPS_PER_YEAR[timeStep]
+  return Math.pow(1 + totalReturn, 1 / timeInYears) - 1
+}
+
+// Observation indices kept for visualization, shared by every currency's path. The paths are cut
+// into targetLength / 4 equal buckets, and each bucket keeps its first and last observation plus
+// the deepest fall and the highest rise of any path relative to the bucket's first price (M4), so
+// crashes and spikes survive downsampling however many currencies share the points. At most
+// targetLength points are kept.
+export function downsampleIndices(paths: ArrayLike<number>[], targetLength: number): number[] {
+  const length = paths[0]?.length ?? 0
+  if (length <= targetLength) return Array.from({ length }, (_, i) => i)
+
+  const nBuckets = Math.max(1, Math.floor(targetLength / 4))
+  const indices: number[] = []
+  for (let b = 0; b < nBuckets; b++) {
+    const start = Math.floor((b * length) / nBuckets)
+    const end = Math.floor(((b + 1) * length) / nBuckets)
+    let lowest = { ratio: Infinity, t: start }
+    let highest = { ratio: -Infinity, t: start }
+
+    // Ties keep the earliest observation and currency, like NumPy's argmin and argmax
+    for (const path of paths) {
+      let min = start
+      let max = start
+      for (let t = start + 1; t < end; t++) {
+        if (path[t] < path[min]) min = t
+        if (path[t] > path[max]) max = t
+      }
+      if (path[min] / path[start] < lowest.ratio) lowest = { ratio: path[min] / path[start], t: min }
+      if (path[max] / path[start] > highest.ratio) highest = { ratio: path[max] / path[start], t: max }
+    }
+    indices.push(...[...new Set([start, end - 1, lowest.t, highest.t])].sort((x, y) => x - y))
+  }
+  return indices
+}
+
+// Evenly spaced observation indices from the first to the last, at most targetLength of them.
+// Risk metrics and backtests use the prices at these points: unlike the chart points, where they
+// fall does not depend on the path, so the returns between them are neither skewed toward the
+// extremes nor informed by prices later in a bucket.
+export function analysisIndices(length: number, targetLength = SAMPLE_POINTS): number[] {
+  if (length <= targetLength) return Array.from({ length }, (_, i) => i)
+  return Array.from({ length: targetLength }, (_, i) => Math.floor((i * (length - 1)) / (targetLength - 1)))
+}
+
+// Indices of the evenly spaced points kept before downsampling preserved extremes
+export function sampleIndices(length: number, targetLength: number): number[] {
+  if (length <= targetLength) return Array.from({ length }, (_, i) => i)
+
+  const step = length / targetLength
+  return Array.from({ length: targetLength }, (_, i) => Math.min(Math.floor(i * step), length - 1))
+}
+
+// Simulations stored before the time axis was recorded were sampled at evenly spaced points, and
+// ones stored before the analysis samples were kept take each sample's price from the last chart
+// point at or before it
+export function upgradeLegacyTime(simulation: SimulationData, nObservations: number): SimulationData {
+  const time = simulation.time ?? sampleIndices(nObservations, simulation.prices[0]?.length ?? 0)
+  if (simulation.time && simulation.samples) return simulation
+
+  const positions: number[] = []
+  let position = 0
+  for (const t of analysisIndices(nObservations)) {
+    while (position + 1 < time.length && time[position + 1] <= t) position++
+    positions.push(position)
+  }
+  return { ...simulation, time, samples: simulation.prices.map((series) => positions.map((p) => series[p])) }
+}
+
+// Generate multivariate normal random variables X = μ + F * Z from a covariance factor F. The mean
+// is either shared by every component or given per component.
+function generateMultivariateNormal(mean: number | number[], factor: number[][], normal: () => number): number[] {
+  const z = factor.map(() => normal())
+  return multiply(factor, z).map((x, i) => (typeof mean === "number" ? mean : mean[i]) + x)
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import { runEngine } from "./engine"
+import { resolveEvents } from "./events"
+import { defaultFormValues } from "./simulation-schema"
+import type { EventConfig, SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const params: SimulationParams = { ...defaults, nSimulations: 20, nObservations: 100, nCurrencies: 1, assets: [] }
+
+function withEvent(event: Partial<EventConfig>): SimulationParams {
+  return {
+    ...params,
+    events: [{ name: "Crash", probability: 1, duration: 10, meanShocks: [-0.3], decay: "step", ...event }],
+  }
+}
+
+describe("resolveEvents", () => {
+  it("rejects events starting on the initial price", () => {
+    expect(() => resolveEvents(withEvent({ start: 0 }))).toThrow(
+      'Event "Crash" must start at a whole observation index between 1 and 90 (got 0).',
+    )
+    expect(resolveEvents(withEvent({ start: 1 }))[0].start).toBe(1)
+    expect(resolveEvents(withEvent({ start: 90 }))[0].start).toBe(90)
+  })
+
+  it("rejects events that do not fit", () => {
+    expect(() => resolveEvents(withEvent({ start: 91 }))).toThrow("between 1 and 90 (got 91)")
+    expect(() => resolveEvents(withEvent({ duration: 100 }))).toThrow("which leaves no room in 100")
+  })
+})
+
+describe("random event starts", () => {
+  it("leave room for every step of the event after the initial price", () => {
+    const starts = (duration: number) =>
+      runEngine(withEvent({ duration })).simulations.flatMap((sim) => sim.events.map((o) => o.start))
+
+    // Only one start fits an event covering every step
+    expect(new Set(starts(99))).toEqual(new Set([1]))
+    for (const start of starts(10)) {
+      expect(start).toBeGreaterThanOrEqual(1)
+      expect(start + 10).toBeLessThanOrEqual(params.nObservations)
+    }
+  })
+})
@@ -0,0 +1,127 @@
+import type { EventConfig, EventDecayShape, SimulationData, SimulationParams } from "./types"
+
+// Mean total log-return of the default extreme event (a market crash)
+export const EXTREME_EVENT_MEAN = -0.1
+
+export const EVENT_DECAY_SHAPES: Record<EventDecayShape, string> = {
+  exponential: "Exponential decay",
+  linear: "Linear decay",
+  step: "Constant",
+  "v-shaped": "V-shaped recovery",
+}
+
+export const EVENT_DECAY_SHAPE_IDS = Object.keys(EVENT_DECAY_SHAPES) as [EventDecayShape, ...EventDecayShape[]]
+
+// An event validated against the run's parameters, in the form both engines consume
+export interface ResolvedEvent {
+  probability: number
+  start: number | null // null when the start is drawn at random
+  duration: number
+  meanShocks: number[]
+  profile: number[] // Fraction of the total shock applied at each step, see eventProfile
+}
+
+// Fraction of an event's total shock applied at each of its `duration` steps. Decaying shapes
+// sum to 1. A V-shaped event falls by the whole shock over its first half and recovers it
+// over the second, so its fractions sum to 0.
+export function eventProfile(shape: EventDecayShape, duration: number): number[] {
+  if (shape === "v-shaped") {
+    const fall = Math.ceil(duration / 2)
+    const recovery = duration - fall
+    return Array.from({ length: duration }, (_, k) => (k < fall ? 1 / fall : -1 / recovery))
+  }
+
+  const weights = Array.from({ length: duration }, (_, k) => {
+    const progress = k / duration
+    if (shape === "exponential") return Math.exp(-3 * progress)
+    if (shape === "linear") return 1 - progress
+    return 1
+  })
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  return weights.map((w) => w / total)
+}
+
+// The single event described by the extremeEvent* parameters, used when no scenario is given
+export function legacyEvent(
+  params: Pick<SimulationParams, "nCurrencies" | "extremeEventProbability" | "extremeEventDuration">,
+): EventConfig {
+  return {
+    name: "Extreme event",
+    probability: params.extremeEventProbability,
+    duration: params.extremeEventDuration,
+    meanShocks: new Array(params.nCurrencies).fill(EXTREME_EVENT_MEAN),
+    decay: "exponential",
+  }
+}
+
+// The events of a run, whether configured as a scenario or through the legacy parameters
+export function eventConfigs(params: SimulationParams): EventConfig[] {
+  return params.events ?? [legacyEvent(params)]
+}
+
+// Grow or shrink every event's mean shocks to n currencies, keeping existing entries
+export function resizeEvents(events: EventConfig[], n: number): EventConfig[] {
+  return events.map((event) => ({
+    ...event,
+    meanShocks: Array.from({ length: n }, (_, i) => event.meanShocks[i] ?? EXTREME_EVENT_MEAN),
+  }))
+}
+
+// Validate the run's events and precompute their profiles. Throws a descriptive error when an
+// event does not fit the simulation.
+export function resolveEvents(params: SimulationParams): ResolvedEvent[] {
+  const { nCurrencies, nObservations } = params
+
+  return eventConfigs(params).map((event) => {
+    const label = `Event "${event.name}"`
+    if (!(event.probability >= 0 && event.probability <= 1)) {
+      throw new Error(`${label} probability must be between 0 and 1 (got ${event.probability}).`)
+    }
+    if (!Number.isInteger(event.duration) || event.duration < 1) {
+      throw new Error(`${label} duration must be a positive whole number of observations (got ${event.duration}).`)
+    }
+    if (event.start === undefined) {
+      // An event that can never fire does not need to fit
+      if (event.probability > 0 && event.duration >= nObservations) {
+        throw new Error(`${label} lasts ${event.duration} observations, which leaves no room in ${nObservations}.`)
+      }
+    } else if (!Number.isInteger(event.start) || event.start < 1 || event.start + event.duration > nObservations) {
+      // Observation 0 is the initial price, so the first shock can move observation 1 at the earliest
+      throw new Error(
+        `${label} must start at a whole observation index between 1 and ${nObservations - event.duration} ` +
+          `(got ${event.start}).`,
+      )
+    }
+    if (event.meanShocks.length !== nCurrencies) {
+      throw new Error(
+        `${label} needs one mean shock per currency (expected ${nCurrencies}, got ${event.meanShocks.length}).`,
+      )
+    }
+    event.meanShocks.forEach((shock, i) => {
+      if (!Number.isFinite(shock)) {
+        throw new Error(`${label} mean shock for currency ${i + 1} must be a number (got ${shock}).`)
+      }
+    })
+
+    return {
+      probability: event.probability,
+      start: event.start ?? null,
+      duration: event.duration,
+      meanShocks: event.meanShocks,
+      profile: eventProfile(event.decay, event.duration),
+    }
+  })
+}
+
+// Simulations stored before scenarios existed recorded at most one event as extremeEventIndex.
+// Their shocks were not kept, so the upgraded occurrence has none.
+export function upgradeLegacyEvents(simulation: SimulationData): SimulationData {
+  if (simulation.events) return simulation
+
+  const { extremeEvent, extremeEventIndex, ...rest } = simulation as SimulationData & {
+    extremeEvent?: boolean
+    extremeEventIndex?: number | null
+  }
+  const events = extremeEvent && extremeEventIndex != null ? [{ event: 0, start: extremeEventIndex, shocks: [] }] : []
+  return { ...rest, events }
+}
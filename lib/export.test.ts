@@ -0,0 +1,46 @@
+import { strToU8, unzipSync, zipSync } from "fflate"
+import { describe, expect, it } from "vitest"
+
+import { runEngine } from "./engine"
+import { exportBundle, importBundle } from "./export"
+import { defaultFormValues } from "./simulation-schema"
+import type { SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const params: SimulationParams = { ...defaults, nSimulations: 3, nObservations: 2000, nCurrencies: 2, assets: [] }
+
+// Replace one file of an exported bundle
+function withFile(bundle: Uint8Array, name: string, contents: unknown): Uint8Array {
+  return zipSync({ ...unzipSync(bundle), [name]: strToU8(JSON.stringify(contents)) })
+}
+
+describe("importBundle", () => {
+  const result = runEngine(params)
+  const bundle = exportBundle(result)
+
+  it("reads back what exportBundle wrote", () => {
+    const imported = importBundle(bundle)
+    expect(imported.params).toEqual(params)
+    expect(imported.simulations.map((sim) => sim.time)).toEqual(result.simulations.map((sim) => sim.time))
+    expect(imported.simulations[0].prices[1]).toEqual(result.simulations[0].prices[1])
+    expect(imported.simulations[0].events).toEqual(result.simulations[0].events)
+  })
+
+  it("rejects parameters that fail the schema, listing every issue", () => {
+    const tampered = withFile(bundle, "params.json", { ...params, nCurrencies: "2", nObservations: -1 })
+    expect(() => importBundle(tampered)).toThrow(
+      /params\.json holds invalid parameters:\nnObservations: .*\nnCurrencies: /,
+    )
+  })
+
+  it("rejects keys that are not parameters", () => {
+    const tampered = withFile(bundle, "params.json", { ...params, injected: true })
+    expect(() => importBundle(tampered)).toThrow("Unrecognized key(s) in object: 'injected'")
+  })
+
+  it("rejects other bundle versions", () => {
+    const manifest = JSON.parse(new TextDecoder().decode(unzipSync(bundle)["manifest.json"]))
+    const newer = withFile(bundle, "manifest.json", { ...manifest, version: 2 })
+    expect(() => importBundle(newer)).toThrow("Unsupported bundle version 2 (expected 1).")
+  })
+})
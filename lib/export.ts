@@ -0,0 +1,162 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate"
+
+import { getAssetName } from "./assets"
+import { upgradeLegacyTime } from "./engine"
+import { upgradeLegacyEvents } from "./events"
+import { formatSchemaError, simulationParamsSchema } from "./simulation-schema"
+import type { EngineInfo, SimulationData, SimulationParams, SimulationResult } from "./types"
+
+// Bumped whenever the bundle layout changes, so old bundles are rejected with a clear message
+export const BUNDLE_VERSION = 1
+
+// Everything about a simulation except its time axis and prices, which the bundle stores as CSV
+type SimulationSummary = Omit<SimulationData, "time" | "prices">
+
+interface BundleManifest {
+  version: number
+  simulations: SimulationSummary[]
+  engine?: EngineInfo // Missing in bundles exported before engines were recorded
+}
+
+// Zip archive with params.json, manifest.json (the per-simulation metrics) and one wide CSV per
+// simulation under simulations/. importBundle turns it back into the same SimulationResult.
+export function exportBundle(result: SimulationResult): Uint8Array {
+  const manifest: BundleManifest = {
+    version: BUNDLE_VERSION,
+    simulations: result.simulations.map(({ time: _time, prices: _prices, ...summary }) => summary),
+    engine: result.engine,
+  }
+
+  const files: Record<string, Uint8Array> = {
+    "params.json": strToU8(JSON.stringify(result.params, null, 2)),
+    "manifest.json": strToU8(JSON.stringify(manifest)),
+  }
+  result.simulations.forEach((_, i) => {
+    files[simulationFileName(i)] = strToU8(simulationCsv(result, i))
+  })
+
+  return zipSync(files)
+}
+
+// One row per sampled point with a time column and one price column per currency
+export function simulationCsv(result: SimulationResult, simulation: number): string {
+  const { time: times, prices } = result.simulations[simulation]
+  const header = ["time", ...prices.map((_, c) => getAssetName(result.params, c))]
+  const rows = times.map((time, t) => [time, ...prices.map((series) => series[t])].join(","))
+  return [header.map(csvField).join(","), ...rows].join("\n") + "\n"
+}
+
+// Tidy table with one row per simulation, time and currency, ready for pandas or R
+export function longCsv(result: SimulationResult): string {
+  const lines = ["simulation,time,currency,price"]
+  forEachPrice(result, (simulation, time, currency, price) => {
+    lines.push(`${simulation},${time},${csvField(currency)},${price}`)
+  })
+  return lines.join("\n") + "\n"
+}
+
+// The long table as JSON Lines: flat records with a fixed schema, so each line maps to one Parquet row
+export function jsonLines(result: SimulationResult): string {
+  const lines: string[] = []
+  forEachPrice(result, (simulation, time, currency, price) => {
+    lines.push(JSON.stringify({ simulation, time, currency, price }))
+  })
+  return lines.join("\n") + "\n"
+}
+
+// Read a bundle written by exportBundle, checking that every file is present and consistent
+export function importBundle(data: Uint8Array): SimulationResult {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data)
+  } catch {
+    throw new Error("The file is not a zip archive.")
+  }
+
+  const manifest = readJson<BundleManifest>(files, "manifest.json")
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${manifest.version} (expected ${BUNDLE_VERSION}).`)
+  }
+  // The parameters go on to the engine, so they are held to the same schema as an API request
+  const parsedParams = simulationParamsSchema.safeParse(readJson<unknown>(files, "params.json"))
+  if (!parsedParams.success) {
+    throw new Error(`params.json holds invalid parameters:\n${formatSchemaError(parsedParams.error)}`)
+  }
+  const params: SimulationParams = parsedParams.data
+  if (!Array.isArray(manifest.simulations) || manifest.simulations.length === 0) {
+    throw new Error("The bundle contains no simulations.")
+  }
+
+  const simulations = manifest.simulations.map((summary, i) => {
+    const name = simulationFileName(i)
+    const file = files[name]
+    if (!file) throw new Error(`${name} is missing from the bundle.`)
+    const simulation = upgradeLegacyEvents({
+      ...parseSimulationCsv(strFromU8(file), params.nCurrencies, name),
+      ...summary,
+    })
+    return upgradeLegacyTime(simulation, params.nObservations)
+  })
+
+  return { params, simulations, engine: manifest.engine }
+}
+
+function simulationFileName(index: number): string {
+  return `simulations/simulation-${String(index + 1).padStart(4, "0")}.csv`
+}
+
+// Time column and price columns of a wide simulation CSV, one series per currency
+function parseSimulationCsv(csv: string, nCurrencies: number, name: string): Pick<SimulationData, "time" | "prices"> {
+  // The header holds currency names and may contain quoted commas, so it is skipped rather than parsed
+  const rows = csv.trim().split("\n").slice(1)
+  const time: number[] = []
+  const prices: number[][] = Array.from({ length: nCurrencies }, () => [])
+
+  rows.forEach((row, t) => {
+    const fields = row.split(",")
+    if (fields.length !== nCurrencies + 1) {
+      throw new Error(`${name}, row ${t + 2}: expected ${nCurrencies + 1} columns but found ${fields.length}.`)
+    }
+    const observation = Number(fields[0])
+    if (!Number.isInteger(observation) || observation < 0) {
+      throw new Error(`${name}, row ${t + 2}: "${fields[0]}" is not an observation index.`)
+    }
+    time.push(observation)
+    for (let c = 0; c < nCurrencies; c++) {
+      const price = Number(fields[c + 1])
+      if (!Number.isFinite(price)) {
+        throw new Error(`${name}, row ${t + 2}: "${fields[c + 1]}" is not a number.`)
+      }
+      prices[c].push(price)
+    }
+  })
+
+  return { time, prices }
+}
+
+function readJson<T>(files: Record<string, Uint8Array>, name: string): T {
+  const file = files[name]
+  if (!file) throw new Error(`${name} is missing from the bundle.`)
+  try {
+    return JSON.parse(strFromU8(file)) as T
+  } catch {
+    throw new Error(`${name} is not valid JSON.`)
+  }
+}
+
+// Simulations are numbered from 1, as in the dashboard
+function forEachPrice(
+  result: SimulationResult,
+  callback: (simulation: number, time: number, currency: string, price: number) => void,
+) {
+  result.simulations.forEach((sim, i) => {
+    sim.time.forEach((time, t) => {
+      sim.prices.forEach((series, c) => callback(i + 1, time, getAssetName(result.params, c), series[t]))
+    })
+  })
+}
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
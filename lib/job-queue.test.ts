@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { createJobQueue, createMemoryJobStorage, type JobStorage } from "./job-queue"
+import { defaultFormValues } from "./simulation-schema"
+import type { SimulationJob, SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const params: SimulationParams = {
+  ...defaults,
+  nSimulations: 5,
+  nObservations: 200,
+  nCurrencies: 1,
+  extremeEventDuration: 10,
+  assets: [],
+}
+
+// Memory storage that answers after a timer, like an external store, so concurrent updates
+// interleave. Every saved job is recorded.
+function slowStorage(saved: SimulationJob[]): JobStorage {
+  const storage = createMemoryJobStorage()
+  const later = <T>(value: Promise<T>) => new Promise<T>((resolve) => setTimeout(() => resolve(value), 1))
+  return {
+    getJob: (id) => later(storage.getJob(id)),
+    saveJob: (job) => {
+      saved.push(job)
+      return later(storage.saveJob(job))
+    },
+    listJobs: () => later(storage.listJobs()),
+    getResult: (id) => later(storage.getResult(id)),
+    saveResult: (id, result) => later(storage.saveResult(id, result)),
+    deleteJob: (id) => later(storage.deleteJob(id)),
+  }
+}
+
+describe("createJobQueue", () => {
+  it("runs a job to completion and keeps its result", async () => {
+    const queue = createJobQueue(createMemoryJobStorage())
+    const { id } = await queue.submit(params)
+
+    await vi.waitFor(async () => expect((await queue.getJob(id))?.status).toBe("completed"))
+    const job = await queue.getJob(id)
+    expect(job).toMatchObject({ completed: 5, total: 5, error: null })
+    expect((await queue.getResult(id))?.simulations).toHaveLength(5)
+  })
+
+  it.each([1, 3])("never overwrites a cancellation saved after %i simulations", async (completed) => {
+    const saved: SimulationJob[] = []
+    const queue = createJobQueue(slowStorage(saved))
+    const { id } = await queue.submit(params)
+    // Cancel while the worker is saving its progress
+    await vi.waitFor(() => expect(saved.some((job) => job.completed === completed)).toBe(true), { interval: 1 })
+
+    expect((await queue.cancel(id))?.status).toBe("cancelled")
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    const cancelledAt = saved.findIndex((job) => job.status === "cancelled")
+    expect(saved.slice(cancelledAt).map((job) => job.status)).toEqual(["cancelled"])
+    expect((await queue.getJob(id))?.status).toBe("cancelled")
+  })
+
+  it("never starts a job cancelled while queued", async () => {
+    const queue = createJobQueue(createMemoryJobStorage(), 1)
+    const first = await queue.submit(params)
+    const second = await queue.submit(params)
+
+    expect((await queue.cancel(second.id))?.status).toBe("cancelled")
+    await vi.waitFor(async () => expect((await queue.getJob(first.id))?.status).toBe("completed"))
+    expect(await queue.getJob(second.id)).toMatchObject({ status: "cancelled", startedAt: null, completed: 0 })
+  })
+
+  it("removes a finished job when it is cancelled again", async () => {
+    const queue = createJobQueue(createMemoryJobStorage())
+    const { id } = await queue.submit(params)
+    await vi.waitFor(async () => expect((await queue.getJob(id))?.status).toBe("completed"))
+
+    expect((await queue.cancel(id))?.status).toBe("completed")
+    expect(await queue.getJob(id)).toBeNull()
+    expect(await queue.getResult(id)).toBeNull()
+  })
+})
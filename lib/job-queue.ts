@@ -0,0 +1,168 @@
+import { engineSimulations } from "./engine"
+import { isJobActive } from "./jobs"
+import { serverEngineInfo } from "./simulation-api"
+import type { SimulationData, SimulationJob, SimulationParams, SimulationResult } from "./types"
+
+// Jobs running at once. Workers share the server's event loop and take turns between simulations.
+export const JOB_CONCURRENCY = 2
+
+// How long a finished job and its result are kept for the client to collect
+export const JOB_RETENTION_MS = 60 * 60 * 1000
+
+// Where jobs and their results are kept. The in-memory storage is enough for a single server
+// process; an external store lets jobs outlive it.
+export interface JobStorage {
+  getJob(id: string): Promise<SimulationJob | null>
+  saveJob(job: SimulationJob): Promise<void>
+  listJobs(): Promise<SimulationJob[]>
+  getResult(id: string): Promise<SimulationResult | null>
+  saveResult(id: string, result: SimulationResult): Promise<void>
+  // Remove a job together with its result
+  deleteJob(id: string): Promise<void>
+}
+
+export interface JobQueue {
+  submit: (params: SimulationParams) => Promise<SimulationJob>
+  getJob: (id: string) => Promise<SimulationJob | null>
+  getResult: (id: string) => Promise<SimulationResult | null>
+  // Stop a queued or running job. A finished job is removed instead, with its result.
+  cancel: (id: string) => Promise<SimulationJob | null>
+}
+
+export function createMemoryJobStorage(): JobStorage {
+  const jobs = new Map<string, SimulationJob>()
+  const results = new Map<string, SimulationResult>()
+
+  return {
+    getJob: async (id) => jobs.get(id) ?? null,
+    saveJob: async (job) => {
+      jobs.set(job.id, job)
+    },
+    listJobs: async () => [...jobs.values()],
+    getResult: async (id) => results.get(id) ?? null,
+    saveResult: async (id, result) => {
+      results.set(id, result)
+    },
+    deleteJob: async (id) => {
+      jobs.delete(id)
+      results.delete(id)
+    },
+  }
+}
+
+export function createJobQueue(storage: JobStorage, concurrency = JOB_CONCURRENCY): JobQueue {
+  const pending: string[] = []
+  const updates = new Map<string, Promise<unknown>>()
+  let running = 0
+
+  // Start queued jobs while workers are free
+  function drain() {
+    while (running < concurrency && pending.length > 0) {
+      const id = pending.shift()!
+      running++
+      work(id)
+        .catch((error) => console.error(`Job ${id} could not be stored:`, error))
+        .finally(() => {
+          running--
+          drain()
+        })
+    }
+  }
+
+  // Changes to a job are applied one at a time, each to the job as last stored, so a worker's
+  // progress cannot overwrite a cancellation. A finished or removed job is left alone and null
+  // is returned.
+  function update(id: string, change: Partial<SimulationJob>): Promise<SimulationJob | null> {
+    const next = (updates.get(id) ?? Promise.resolve()).then(async () => {
+      const current = await storage.getJob(id)
+      if (!current || !isJobActive(current)) return null
+      const job = { ...current, ...change }
+      await storage.saveJob(job)
+      return job
+    })
+    const settled = next.catch(() => null)
+    updates.set(id, settled)
+    settled.then(() => {
+      if (updates.get(id) === settled) updates.delete(id)
+    })
+    return next
+  }
+
+  async function work(id: string) {
+    // Null when the job was cancelled while queued
+    const started = await update(id, { status: "running", startedAt: Date.now() })
+    if (!started) return
+    const simulations: SimulationData[] = []
+
+    try {
+      for (const simulation of engineSimulations(started.params)) {
+        simulations.push(simulation)
+        // Let requests and the other workers through before the next simulation
+        await new Promise((resolve) => setImmediate(resolve))
+        // Stops once the job was cancelled
+        if (!(await update(id, { completed: simulations.length }))) return
+      }
+
+      await storage.saveResult(id, { simulations, params: started.params, engine: serverEngineInfo() })
+      await update(id, { status: "completed", finishedAt: Date.now() })
+    } catch (error) {
+      console.error(`Job ${id} failed:`, error)
+      const message = error instanceof Error ? error.message : String(error)
+      await update(id, { status: "failed", finishedAt: Date.now(), error: message })
+    }
+  }
+
+  // Forget finished jobs the client had time to collect
+  async function prune() {
+    const cutoff = Date.now() - JOB_RETENTION_MS
+    const expired = (await storage.listJobs()).filter((job) => job.finishedAt !== null && job.finishedAt < cutoff)
+    await Promise.all(expired.map((job) => storage.deleteJob(job.id)))
+  }
+
+  return {
+    submit: async (params) => {
+      await prune()
+      const job: SimulationJob = {
+        id: crypto.randomUUID(),
+        status: "queued",
+        params,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        completed: 0,
+        total: params.nSimulations,
+        error: null,
+      }
+      await storage.saveJob(job)
+      pending.push(job.id)
+      drain()
+      return job
+    },
+    getJob: (id) => storage.getJob(id),
+    getResult: (id) => storage.getResult(id),
+    cancel: async (id) => {
+      const job = await storage.getJob(id)
+      if (!job) return null
+
+      if (isJobActive(job)) {
+        const index = pending.indexOf(id)
+        if (index >= 0) pending.splice(index, 1)
+        // A running job's worker stops after its current simulation. The job may also have
+        // finished meanwhile, in which case it is kept as it is.
+        return (await update(id, { status: "cancelled", finishedAt: Date.now() })) ?? storage.getJob(id)
+      }
+
+      await storage.deleteJob(id)
+      return job
+    },
+  }
+}
+
+// One queue per server process. It lives on globalThis so reloading modules in development
+// does not orphan running jobs.
+const globalForJobs = globalThis as typeof globalThis & { simulationJobQueue?: JobQueue }
+
+export function getJobQueue(): JobQueue {
+  globalForJobs.simulationJobQueue ??= createJobQueue(createMemoryJobStorage())
+  return globalForJobs.simulationJobQueue
+}
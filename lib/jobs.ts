@@ -0,0 +1,70 @@
+import { SimulationRequestError } from "./simulation"
+import type { SimulationErrorResponse, SimulationJob, SimulationParams, SimulationResult } from "./types"
+
+// Ids of the background jobs submitted from this browser, so they can be picked up after a reload
+const STORAGE_KEY = "trading-simulation-dashboard:jobs"
+
+// Time between status requests while a job is queued or running
+export const JOB_POLL_INTERVAL_MS = 1000
+
+export function isJobActive(job: SimulationJob): boolean {
+  return job.status === "queued" || job.status === "running"
+}
+
+export function submitJob(params: SimulationParams): Promise<SimulationJob> {
+  return requestJson("/api/jobs", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(params),
+  })
+}
+
+// Current state of a job, or null when the server no longer knows it (expired or restarted)
+export async function fetchJob(id: string): Promise<SimulationJob | null> {
+  try {
+    return await requestJson(`/api/jobs/${id}`)
+  } catch (error) {
+    if (error instanceof SimulationRequestError && error.code === "job_not_found") return null
+    throw error
+  }
+}
+
+export function fetchJobResult(id: string): Promise<SimulationResult> {
+  return requestJson(`/api/jobs/${id}/result`)
+}
+
+// Cancel a queued or running job, or discard a finished one on the server
+export async function cancelJob(id: string): Promise<void> {
+  try {
+    await requestJson(`/api/jobs/${id}`, { method: "DELETE" })
+  } catch (error) {
+    if (!(error instanceof SimulationRequestError && error.code === "job_not_found")) throw error
+  }
+}
+
+export function loadTrackedJobs(): string[] {
+  if (typeof localStorage === "undefined") return []
+  try {
+    const ids: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function saveTrackedJobs(ids: string[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ids))
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    const body: SimulationErrorResponse = await response
+      .json()
+      .catch(() => ({ code: "simulation_failed", error: `Request failed: ${response.statusText}` }))
+    throw new SimulationRequestError(body)
+  }
+  return response.json()
+}
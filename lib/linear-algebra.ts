@@ -0,0 +1,154 @@
+// Small dense linear algebra helpers for covariance matrices
+
+// Relative tolerance used for symmetry and positive-semidefiniteness checks
+const TOLERANCE = 1e-10
+
+// Cholesky decomposition A = L * Lᵀ of a symmetric positive-definite matrix.
+// Returns null when the matrix is not positive definite.
+export function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length
+  const L: number[][] = []
+  for (let i = 0; i < n; i++) {
+    L[i] = new Array(n).fill(0)
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j]
+      for (let k = 0; k < j; k++) {
+        sum -= L[i][k] * L[j][k]
+      }
+
+      if (i === j) {
+        if (sum <= 0) return null
+        L[i][i] = Math.sqrt(sum)
+      } else {
+        L[i][j] = sum / L[j][j]
+      }
+    }
+  }
+
+  return L
+}
+
+// Eigen decomposition of a symmetric matrix using cyclic Jacobi rotations.
+// Eigenvalues are returned in ascending order; vectors[i] is the eigenvector of values[i].
+export function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length
+  const a = matrix.map((row) => [...row])
+  const v: number[][] = []
+  for (let i = 0; i < n; i++) {
+    v[i] = new Array(n).fill(0)
+    v[i][i] = 1
+  }
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        offDiagonal += a[i][j] * a[i][j]
+      }
+    }
+    if (offDiagonal < 1e-30) break
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[i][i] - a[j][j])
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((i) => v.map((row) => row[i])),
+  }
+}
+
+// Factor F with F * Fᵀ = A for a symmetric positive-semidefinite matrix. Uses Cholesky
+// when the matrix is positive definite and falls back to the eigen decomposition for
+// singular matrices (e.g. perfectly correlated currencies). Throws if A is not PSD.
+export function covarianceFactor(matrix: number[][], label = "Covariance matrix"): number[][] {
+  const L = cholesky(matrix)
+  if (L) return L
+
+  const { values, vectors } = symmetricEigen(matrix)
+  const scale = Math.max(...values.map(Math.abs), 0)
+  if (values[0] < -TOLERANCE * Math.max(scale, 1)) {
+    throw new Error(
+      `${label} is not positive semidefinite (smallest eigenvalue ${values[0].toExponential(3)}). ` +
+        "Reduce the off-diagonal correlations or covariances so that they are mutually consistent.",
+    )
+  }
+
+  const n = matrix.length
+  const F: number[][] = []
+  for (let i = 0; i < n; i++) {
+    F[i] = new Array(n).fill(0)
+    for (let k = 0; k < n; k++) {
+      F[i][k] = vectors[k][i] * Math.sqrt(Math.max(values[k], 0))
+    }
+  }
+  return F
+}
+
+// Check that a matrix is a valid correlation matrix and throw a descriptive error if not
+export function validateCorrelationMatrix(matrix: number[][], n: number, label = "Correlation matrix"): void {
+  if (matrix.length !== n || matrix.some((row) => row.length !== n)) {
+    throw new Error(`${label} must be ${n}×${n}, one row and column per currency.`)
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (Math.abs(matrix[i][i] - 1) > TOLERANCE) {
+      throw new Error(`${label} must have 1 on the diagonal (entry ${i + 1},${i + 1} is ${matrix[i][i]}).`)
+    }
+    for (let j = i + 1; j < n; j++) {
+      if (!Number.isFinite(matrix[i][j]) || Math.abs(matrix[i][j]) > 1) {
+        throw new Error(`${label} entry ${i + 1},${j + 1} is ${matrix[i][j]}; correlations must be within [-1, 1].`)
+      }
+      if (Math.abs(matrix[i][j] - matrix[j][i]) > TOLERANCE) {
+        throw new Error(
+          `${label} must be symmetric (entry ${i + 1},${j + 1} is ${matrix[i][j]} but ${j + 1},${i + 1} is ${matrix[j][i]}).`,
+        )
+      }
+    }
+  }
+
+  // Throws if the matrix is not positive semidefinite
+  covarianceFactor(matrix, label)
+}
+
+// Covariance matrix Σ = D * R * D from per-currency variances and a correlation matrix
+export function correlationToCovariance(variances: number[], correlation: number[][]): number[][] {
+  const std = variances.map((v) => Math.sqrt(v))
+  return correlation.map((row, i) => row.map((rho, j) => rho * std[i] * std[j]))
+}
+
+// Multiply a matrix by a vector
+export function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => row.reduce((sum, value, j) => sum + value * vector[j], 0))
+}
@@ -0,0 +1,295 @@
+import { z } from "zod"
+import type { RandomStream } from "./random"
+import type { ModelId } from "./types"
+
+export interface ModelParameter {
+  key: string
+  label: string
+  description: string
+  min: number
+  max: number
+  step: number
+  defaultValue: number
+}
+
+// Everything a model needs to simulate one currency's path
+export interface PathContext {
+  initialPrice: number
+  mu: number // Annualized drift sampled (or overridden) for the currency
+  sigma: number // Annualized volatility sampled (or overridden) for the currency
+  dt: number // Length of one observation in years
+  params: Record<string, number> // Validated model-specific parameters
+}
+
+// Advances a path by one observation and returns the next price
+export type PathStepper = (price: number, random: RandomStream) => number
+
+export interface ProcessModel {
+  id: ModelId
+  label: string
+  description: string
+  parameters: ModelParameter[]
+  // Cross-parameter constraints that a per-field range cannot express
+  validate?: (params: Record<string, number>) => string | null
+  createPath: (ctx: PathContext) => PathStepper
+}
+
+const gbm: ProcessModel = {
+  id: "gbm",
+  label: "Geometric Brownian Motion",
+  description: "Log-normal prices with constant drift and volatility.",
+  parameters: [],
+  createPath: ({ mu, sigma, dt }) => {
+    const drift = (mu - 0.5 * sigma * sigma) * dt
+    const diffusion = sigma * Math.sqrt(dt)
+    // GBM: d(log S) = (μ - σ²/2)dt + σdW
+    return (price, random) => price * Math.exp(drift + diffusion * random.normal())
+  },
+}
+
+const randomWalk: ProcessModel = {
+  id: "random-walk",
+  label: "Arithmetic Random Walk",
+  description: "Additive Gaussian increments scaled to the initial price; prices can approach the floor.",
+  parameters: [],
+  createPath: ({ initialPrice, mu, sigma, dt }) => {
+    const drift = mu * initialPrice * dt
+    const diffusion = sigma * initialPrice * Math.sqrt(dt)
+    // dS = μS₀dt + σS₀dW
+    return (price, random) => price + drift + diffusion * random.normal()
+  },
+}
+
+const meanReversion: ProcessModel = {
+  id: "mean-reversion",
+  label: "Ornstein–Uhlenbeck Mean Reversion",
+  description: "Log price reverts to a long-run level that itself moves with the trend.",
+  parameters: [
+    {
+      key: "kappa",
+      label: "Reversion Speed",
+      description: "Rate of reversion per year (half-life = ln 2 / κ years)",
+      min: 0.1,
+      max: 100,
+      step: 0.1,
+      defaultValue: 5,
+    },
+    {
+      key: "longRunLevel",
+      label: "Long-Run Level",
+      description: "Long-run price as a multiple of the initial price",
+      min: 0.1,
+      max: 10,
+      step: 0.05,
+      defaultValue: 1,
+    },
+  ],
+  createPath: ({ initialPrice, mu, sigma, dt, params }) => {
+    let theta = Math.log(initialPrice * params.longRunLevel)
+    const diffusion = sigma * Math.sqrt(dt)
+    // d(log S) = κ(θ - log S)dt + σdW
+    return (price, random) => {
+      theta += mu * dt
+      const x = Math.log(price)
+      return Math.exp(x + params.kappa * (theta - x) * dt + diffusion * random.normal())
+    }
+  },
+}
+
+const heston: ProcessModel = {
+  id: "heston",
+  label: "Heston Stochastic Volatility",
+  description: "Variance follows a mean-reverting square-root process starting at, and reverting to, σ².",
+  parameters: [
+    {
+      key: "kappa",
+      label: "Variance Reversion Speed",
+      description: "Rate at which variance reverts to σ² per year",
+      min: 0.1,
+      max: 20,
+      step: 0.1,
+      defaultValue: 2,
+    },
+    {
+      key: "xi",
+      label: "Volatility of Variance",
+      description: "Scale of variance shocks (ξ)",
+      min: 0,
+      max: 2,
+      step: 0.01,
+      defaultValue: 0.3,
+    },
+    {
+      key: "rho",
+      label: "Price/Variance Correlation",
+      description: "Correlation between price and variance shocks (ρ, usually negative)",
+      min: -1,
+      max: 1,
+      step: 0.05,
+      defaultValue: -0.7,
+    },
+  ],
+  createPath: ({ mu, sigma, dt, params }) => {
+    const theta = sigma * sigma
+    const sqrtDt = Math.sqrt(dt)
+    const rhoComplement = Math.sqrt(1 - params.rho * params.rho)
+    let variance = theta
+
+    // Full-truncation Euler scheme: negative variance is treated as zero
+    return (price, random) => {
+      const z1 = random.normal()
+      const z2 = params.rho * z1 + rhoComplement * random.normal()
+      const v = Math.max(variance, 0)
+      variance += params.kappa * (theta - v) * dt + params.xi * Math.sqrt(v) * sqrtDt * z2
+      return price * Math.exp((mu - 0.5 * v) * dt + Math.sqrt(v) * sqrtDt * z1)
+    }
+  },
+}
+
+const garch: ProcessModel = {
+  id: "garch",
+  label: "GARCH(1,1)",
+  description: "Volatility clusters: each step's variance depends on the last shock and the last variance.",
+  parameters: [
+    {
+      key: "alpha",
+      label: "Shock Weight (α)",
+      description: "Weight of the previous squared shock",
+      min: 0,
+      max: 0.5,
+      step: 0.01,
+      defaultValue: 0.05,
+    },
+    {
+      key: "beta",
+      label: "Persistence (β)",
+      description: "Weight of the previous variance",
+      min: 0,
+      max: 0.999,
+      step: 0.001,
+      defaultValue: 0.9,
+    },
+  ],
+  validate: ({ alpha, beta }) =>
+    alpha + beta < 1 ? null : `GARCH α + β must be below 1 for a stationary variance (got ${alpha + beta}).`,
+  createPath: ({ mu, sigma, dt, params }) => {
+    // ω is chosen so the unconditional per-step variance equals σ²dt
+    const longRunVariance = sigma * sigma * dt
+    const omega = longRunVariance * (1 - params.alpha - params.beta)
+    let variance = longRunVariance
+    let shock = 0
+
+    return (price, random) => {
+      variance = omega + params.alpha * shock * shock + params.beta * variance
+      shock = Math.sqrt(variance) * random.normal()
+      return price * Math.exp(mu * dt - 0.5 * variance + shock)
+    }
+  },
+}
+
+const merton: ProcessModel = {
+  id: "merton",
+  label: "Merton Jump-Diffusion",
+  description: "GBM plus Poisson-arriving log-normal jumps, compensated so the expected drift is unchanged.",
+  parameters: [
+    {
+      key: "lambda",
+      label: "Jump Intensity",
+      description: "Expected number of jumps per year",
+      min: 0,
+      max: 500,
+      step: 1,
+      defaultValue: 12,
+    },
+    {
+      key: "jumpMean",
+      label: "Mean Jump Size",
+      description: "Mean log-return of a jump",
+      min: -0.5,
+      max: 0.5,
+      step: 0.005,
+      defaultValue: -0.02,
+    },
+    {
+      key: "jumpStd",
+      label: "Jump Size Std Dev",
+      description: "Standard deviation of a jump's log-return",
+      min: 0,
+      max: 0.5,
+      step: 0.005,
+      defaultValue: 0.05,
+    },
+  ],
+  createPath: ({ mu, sigma, dt, params }) => {
+    const { lambda, jumpMean, jumpStd } = params
+    const k = Math.exp(jumpMean + 0.5 * jumpStd * jumpStd) - 1
+    const drift = (mu - 0.5 * sigma * sigma - lambda * k) * dt
+    const diffusion = sigma * Math.sqrt(dt)
+    const jumpProbabilityLimit = Math.exp(-lambda * dt)
+
+    return (price, random) => {
+      let logReturn = drift + diffusion * random.normal()
+
+      // Knuth's method: count uniforms until their product drops below e^(-λdt)
+      let product = random.uniform()
+      while (product > jumpProbabilityLimit) {
+        logReturn += jumpMean + jumpStd * random.normal()
+        product *= random.uniform()
+      }
+
+      return price * Math.exp(logReturn)
+    }
+  },
+}
+
+export const models: Record<ModelId, ProcessModel> = {
+  gbm,
+  "random-walk": randomWalk,
+  "mean-reversion": meanReversion,
+  heston,
+  garch,
+  merton,
+}
+
+export const MODEL_IDS = Object.keys(models) as [ModelId, ...ModelId[]]
+
+export function defaultModelParams(modelId: ModelId): Record<string, number> {
+  return Object.fromEntries(models[modelId].parameters.map((p) => [p.key, p.defaultValue]))
+}
+
+// Zod schema for one model's parameters; missing values fall back to their defaults and keys
+// the model does not take are rejected
+export function modelParamsSchema(modelId: ModelId) {
+  const model = models[modelId]
+  const shape = Object.fromEntries(
+    model.parameters.map((p) => [
+      p.key,
+      z
+        .number({ invalid_type_error: `${p.label} must be a number` })
+        .min(p.min, `${p.label} must be at least ${p.min}`)
+        .max(p.max, `${p.label} must be at most ${p.max}`)
+        .default(p.defaultValue),
+    ]),
+  )
+  return z
+    .object(shape)
+    .strict()
+    .superRefine((params, ctx) => {
+      const message = model.validate?.(params as Record<string, number>)
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+    })
+}
+
+// Validate a model's parameters, throwing a descriptive error when they are out of range
+export function resolveModelParams(modelId: ModelId, params: Record<string, number> = {}): Record<string, number> {
+  const model = models[modelId]
+  if (!model) {
+    throw new Error(`Unknown process model "${modelId}".`)
+  }
+
+  const parsed = modelParamsSchema(modelId).safeParse(params)
+  if (!parsed.success) {
+    throw new Error(`${model.label}: ${parsed.error.issues.map((issue) => issue.message).join("; ")}`)
+  }
+  return parsed.data as Record<string, number>
+}
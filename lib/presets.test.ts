@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { BUILT_IN_PRESETS, exportPresets, loadUserPresets, newPreset, saveUserPresets } from "./presets"
+
+const values = BUILT_IN_PRESETS[0].values
+
+describe("loadUserPresets", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>()
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("keeps the ids of saved presets across loads", () => {
+    const presets = [newPreset("Mine", values), newPreset("Other", values, "Second")]
+    saveUserPresets(presets)
+
+    expect(loadUserPresets()).toEqual(presets)
+    expect(loadUserPresets()).toEqual(presets)
+  })
+
+  it("drops only the presets that no longer pass the schema", () => {
+    const valid = newPreset("Valid", values)
+    const stored = JSON.parse(exportPresets([valid, newPreset("Stale", values)]))
+    stored.presets[1].values.nObservations = 50
+    localStorage.setItem("trading-simulation-dashboard:presets", JSON.stringify(stored))
+
+    expect(loadUserPresets()).toEqual([valid])
+  })
+})
@@ -0,0 +1,149 @@
+import { z } from "zod"
+
+import { defaultAssets } from "./assets"
+import {
+  defaultFormValues,
+  formSchema,
+  formatSchemaError,
+  upgradeLegacyEngine,
+  type SimulationFormValues,
+} from "./simulation-schema"
+
+export interface Preset {
+  id: string
+  name: string
+  description?: string
+  builtIn: boolean
+  values: SimulationFormValues
+}
+
+const STORAGE_KEY = "trading-simulation-dashboard:presets"
+const PRESET_FILE_VERSION = 1
+
+const presetSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1).max(60),
+  description: z.string().optional(),
+  values: z.preprocess(upgradeLegacyEngine, formSchema),
+})
+
+const presetFileSchema = z.object({
+  version: z.literal(PRESET_FILE_VERSION),
+  presets: z.array(presetSchema),
+})
+
+// A preset file whose presets are validated one by one
+const storedPresetFileSchema = presetFileSchema.extend({ presets: z.array(z.unknown()) })
+
+function builtIn(id: string, name: string, description: string, values: Partial<SimulationFormValues>): Preset {
+  return { id: `builtin:${id}`, name, description, builtIn: true, values: { ...defaultFormValues, ...values } }
+}
+
+// Volatility covariances must stay below the volatility variance, (volatility / 100)² * 0.1 in the
+// engine's units, and each covariance below its variance
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn("default", "Default", "Six months of minute data with occasional shocks", {}),
+  builtIn("calm-market", "Calm Market", "Low volatility, small trends and rare, mild extreme events", {
+    variance: 0.008 * 0.008,
+    covariance: 0.004 * 0.004,
+    volatility: 1.5,
+    volatilityCovariance: 0.1,
+    extremeEventProbability: 0.01,
+    extremeEventVariance: 100,
+    extremeEventCovariance: 50,
+  }),
+  builtIn(
+    "crypto-winter",
+    "2022 Crypto Winter",
+    "A year of daily prices with steep negative drifts and repeated sell-offs",
+    {
+      timeStep: "day",
+      nObservations: 365,
+      volatility: 12,
+      volatilityCovariance: 10,
+      volatilityWindow: 30,
+      extremeEventProbability: 0.3,
+      extremeEventVariance: 800,
+      extremeEventCovariance: 700,
+      extremeEventDuration: 7,
+      assets: defaultAssets(5).map((asset, i) => ({ ...asset, drift: [-0.65, -0.68, -0.94, -0.52, -0.59][i] })),
+    },
+  ),
+  builtIn(
+    "flash-crash",
+    "Flash Crash",
+    "One week of minute data with a certain, half-hour crash across all currencies",
+    {
+      nObservations: 60 * 24 * 7,
+      volatilityWindow: 60,
+      extremeEventProbability: 1,
+      extremeEventVariance: 2000,
+      extremeEventCovariance: 1800,
+      extremeEventDuration: 30,
+    },
+  ),
+  builtIn("contagion", "High Correlation Contagion", "Currencies move almost in lockstep, including their shocks", {
+    covariance: 0.0118 * 0.0118,
+    volatilityCovariance: 0.85,
+    extremeEventProbability: 0.15,
+    extremeEventCovariance: 495,
+  }),
+]
+
+export function newPreset(name: string, values: SimulationFormValues, description?: string): Preset {
+  return { id: crypto.randomUUID(), name: name.trim(), description, builtIn: false, values }
+}
+
+// User presets saved in this browser, keeping their ids. Presets that no longer pass the form
+// schema, such as ones saved by older versions, are dropped; the others are kept.
+export function loadUserPresets(): Preset[] {
+  if (typeof localStorage === "undefined") return []
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return []
+
+  let data: unknown
+  try {
+    data = JSON.parse(stored)
+  } catch {
+    return []
+  }
+  const file = storedPresetFileSchema.safeParse(data)
+  if (!file.success) return []
+
+  return file.data.presets.flatMap((entry) => {
+    const parsed = presetSchema.safeParse(entry)
+    if (!parsed.success) return []
+    const { id, name, description, values } = parsed.data
+    return [{ ...newPreset(name, values, description), ...(id && { id }) }]
+  })
+}
+
+export function saveUserPresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, exportPresets(presets))
+}
+
+// Presets as a versioned JSON document, the format of both local storage and exported files
+export function exportPresets(presets: Preset[]): string {
+  const file: z.input<typeof presetFileSchema> = {
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ id, name, description, values }) => ({ id, name, description, values })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// Read presets from exportPresets output, validating every preset against the form schema. The
+// imported presets get new ids, so importing a file twice does not duplicate ids.
+export function parsePresetFile(json: string): Preset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error("The file is not valid JSON.")
+  }
+
+  const parsed = presetFileSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`The file does not contain valid presets:\n${formatSchemaError(parsed.error)}`)
+  }
+  return parsed.data.presets.map(({ name, description, values }) => newPreset(name, values, description))
+}
@@ -0,0 +1,115 @@
+import type { PyodideInterface } from "pyodide"
+import { resolveAssets } from "./assets"
+import { ENGINE_VERSION, SAMPLE_POINTS, STEPS_PER_YEAR, defaultVolatilityWindow, resolveCovariances } from "./engine"
+import { resolveEvents } from "./events"
+import { resolveModelParams } from "./models"
+import type { EngineInfo, SimulationData, SimulationParams } from "./types"
+
+// Where the Pyodide runtime and packages are served from. scripts/prepare-pyodide.mjs copies them
+// into public/pyodide; set NEXT_PUBLIC_PYODIDE_BASE_URL to serve them from elsewhere, e.g. a CDN.
+const baseUrl = process.env.NEXT_PUBLIC_PYODIDE_BASE_URL || "/pyodide/"
+export const PYODIDE_BASE_URL = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`
+
+// Python implementation of the engine; bundled as a static asset and fetched by the worker
+const ENGINE_SOURCE_URL = new URL("./python/engine.py", import.meta.url)
+
+let engineLoaded: Promise<void> | null = null
+
+// Define the engine's functions in the Pyodide globals, once per instance
+function loadEngine(pyodide: PyodideInterface): Promise<void> {
+  if (!engineLoaded) {
+    engineLoaded = (async () => {
+      const response = await fetch(ENGINE_SOURCE_URL)
+      if (!response.ok) {
+        throw new Error(`Failed to load the Python engine source (HTTP ${response.status})`)
+      }
+      pyodide.runPython(await response.text())
+    })()
+    engineLoaded.catch(() => {
+      engineLoaded = null
+    })
+  }
+  return engineLoaded
+}
+
+// Versions of the runtime the Python engine runs on, recorded with its results
+export function pythonEngineInfo(pyodide: PyodideInterface): EngineInfo {
+  const python = pyodide.runPython("import sys; sys.version.split()[0]")
+  const numpy = pyodide.runPython("import numpy; numpy.__version__")
+  return {
+    engine: "python",
+    version: ENGINE_VERSION,
+    runtime: `Pyodide ${pyodide.version}, Python ${python}, NumPy ${numpy}`,
+  }
+}
+
+// Runs the Python engine on an already loaded Pyodide instance. Called from the worker in
+// lib/python-worker.ts; onProgress fires after every completed simulation.
+export async function runPythonEngine(
+  pyodide: PyodideInterface,
+  params: SimulationParams,
+  onProgress: (completed: number, total: number) => void,
+): Promise<SimulationData[]> {
+  // Built before loading the engine so invalid parameters fail fast
+  const config = pythonEngineConfig(params)
+
+  await loadEngine(pyodide)
+
+  const runSimulations = pyodide.globals.get("run_simulations")
+  const pyConfig = pyodide.toPy(config)
+  try {
+    const result = runSimulations(pyConfig, onProgress)
+    const simulations = result.toJs({ dict_converter: Object.fromEntries })
+    result.destroy()
+    return simulations
+  } finally {
+    pyConfig.destroy()
+    runSimulations.destroy()
+  }
+}
+
+// The config dict read by run_simulations in lib/python/engine.py, with plain values and Maps for
+// dicts. Validates the parameters, throwing a descriptive error when they do not fit.
+export function pythonEngineConfig(params: SimulationParams): Map<string, unknown> {
+  const covariances = resolveCovariances(params)
+  const assets = resolveAssets(params)
+  const events = resolveEvents(params)
+  const model = params.model ?? "gbm"
+  const modelParams = resolveModelParams(model, params.modelParams)
+
+  // Keys match the config dict read by run_simulations in lib/python/engine.py
+  return new Map<string, unknown>([
+    ["random_seed", params.randomSeed],
+    ["n_simulations", params.nSimulations],
+    ["n_observations", params.nObservations],
+    ["steps_per_year", STEPS_PER_YEAR[params.timeStep]],
+    ["base_price", params.basePrice],
+    ["n_currencies", params.nCurrencies],
+    ["volatility", params.volatility],
+    ["volatility_window", params.volatilityWindow ?? defaultVolatilityWindow(params.timeStep)],
+    // Profiles are computed by resolveEvents so both engines spread shocks identically; a start of -1 is random
+    [
+      "events",
+      events.map(
+        (event) =>
+          new Map<string, unknown>([
+            ["probability", event.probability],
+            ["start", event.start ?? -1],
+            ["duration", event.duration],
+            ["mean_shocks", event.meanShocks],
+            ["profile", event.profile],
+          ]),
+      ),
+    ],
+    ["sample_points", SAMPLE_POINTS],
+    ["model", model],
+    ["model_params", new Map(Object.entries(modelParams))],
+    ["trend_covariance", covariances.trend],
+    ["volatility_covariance", covariances.volatility],
+    ["extreme_event_covariance", covariances.extremeEvent],
+    // Per-asset overrides; NaN means "sample as usual"
+    ["initial_price_overrides", assets.map((a) => a.initialPrice ?? NaN)],
+    ["drift_overrides", assets.map((a) => a.drift ?? NaN)],
+    ["volatility_overrides", assets.map((a) => (a.volatility ?? NaN) / 100)],
+  ])
+}
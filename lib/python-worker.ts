@@ -0,0 +1,92 @@
+// Dedicated worker that owns the Pyodide instance so simulations never block the UI thread.
+// Started by lib/python-simulation.ts; see PythonWorkerRequest/PythonWorkerResponse for the protocol.
+import type { PyodideInterface, loadPyodide as LoadPyodide } from "pyodide"
+import { PYODIDE_BASE_URL, pythonEngineInfo, runPythonEngine } from "./python-engine"
+import type { PythonWorkerRequest, PythonWorkerResponse, SimulationErrorInfo } from "./types"
+
+// The parts of the worker's global scope used here. The project compiles against the DOM
+// library rather than the webworker one, which would declare it.
+interface DedicatedWorkerGlobalScope {
+  location: { href: string }
+  importScripts(...urls: string[]): void
+  postMessage(message: PythonWorkerResponse): void
+  onmessage: ((event: MessageEvent<PythonWorkerRequest>) => void) | null
+  // Defined by pyodide.js once importScripts has run
+  loadPyodide?: typeof LoadPyodide
+  process?: { browser: boolean; env: Record<string, string> }
+}
+
+const scope = self as unknown as DedicatedWorkerGlobalScope
+
+let pyodidePromise: Promise<PyodideInterface> | null = null
+
+function post(message: PythonWorkerResponse) {
+  scope.postMessage(message)
+}
+
+function loadPyodide(): Promise<PyodideInterface> {
+  if (!pyodidePromise) {
+    pyodidePromise = (async () => {
+      // Define process to trick Pyodide's Node.js environment detection
+      scope.process = { browser: true, env: { NODE_ENV: "development" } }
+
+      // Relative base URLs resolve against the app's origin
+      const indexURL = new URL(PYODIDE_BASE_URL, scope.location.href).href
+      try {
+        scope.importScripts(`${indexURL}pyodide.js`)
+      } catch {
+        throw new Error(`Could not load the Pyodide runtime from ${indexURL}`)
+      }
+      if (!scope.loadPyodide) {
+        throw new Error(`${indexURL}pyodide.js did not define loadPyodide`)
+      }
+      const pyodide = await scope.loadPyodide({ indexURL })
+      await pyodide.loadPackage(["numpy"])
+      return pyodide
+    })()
+    // Allow a later request to retry after a failed load
+    pyodidePromise.catch(() => {
+      pyodidePromise = null
+    })
+  }
+  return pyodidePromise
+}
+
+// Pyodide raises PythonError with the exception class in `type` and the traceback in `message`
+function toErrorInfo(error: unknown): SimulationErrorInfo {
+  const pythonType = (error as { type?: unknown } | null)?.type
+  if (error instanceof Error && typeof pythonType === "string") {
+    const traceback = error.message.trim()
+    const lines = traceback.split("\n")
+    return {
+      message: lines[lines.length - 1],
+      pythonType,
+      traceback,
+    }
+  }
+  return { message: error instanceof Error ? error.message : String(error) }
+}
+
+scope.onmessage = async (event: MessageEvent<PythonWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === "load") {
+    try {
+      await loadPyodide()
+      post({ type: "ready" })
+    } catch (error) {
+      post({ type: "error", id: null, error: toErrorInfo(error) })
+    }
+    return
+  }
+
+  try {
+    const pyodide = await loadPyodide()
+    const simulations = await runPythonEngine(pyodide, request.params, (completed, total) =>
+      post({ type: "progress", id: request.id, completed, total }),
+    )
+    post({ type: "result", id: request.id, simulations, engine: pythonEngineInfo(pyodide) })
+  } catch (error) {
+    post({ type: "error", id: request.id, error: toErrorInfo(error) })
+  }
+}
@@ -0,0 +1,336 @@
+# Mirrors the TypeScript engine in lib/engine.ts: drift and volatility are annualized
+# and scaled by dt = 1 / STEPS_PER_YEAR, event shocks are total log-returns.
+# Loaded into Pyodide by lib/python-engine.ts, which calls run_simulations.
+import numpy as np
+
+# Prices never fall below this level
+FLOOR_PRICE = 0.01
+
+# Models whose log-returns don't depend on the current price, so a whole path is a cumulative sum
+CUMULATIVE_MODELS = ('gbm', 'merton')
+
+def simulation_rng(seed, sim):
+    """Independent random stream for one simulation index, reproducible on its own"""
+    return np.random.default_rng(np.random.SeedSequence([seed % 2**32, sim]))
+
+def generate_correlated_trends(rng, n_currencies, cov_matrix):
+    """Generate correlated trend components for multiple currencies"""
+    # Generate correlated random trends
+    trends = rng.multivariate_normal(
+        mean=np.zeros(n_currencies),
+        cov=cov_matrix,
+        size=1
+    )[0]
+
+    return trends
+
+def generate_correlated_volatilities(rng, n_currencies, base_volatility, cov_matrix):
+    """Generate correlated volatility components for multiple currencies"""
+    # Generate correlated volatilities (ensure positive)
+    volatilities = np.abs(rng.multivariate_normal(
+        mean=np.full(n_currencies, base_volatility / 100),  # Convert to decimal
+        cov=cov_matrix,
+        size=1
+    )[0])
+
+    return volatilities
+
+def simulate_event_shocks(rng, mean_shocks, cov_matrix):
+    """Generate the total log-return shock of an event for every currency"""
+    shocks = rng.multivariate_normal(
+        mean=mean_shocks,
+        cov=cov_matrix,
+        size=1
+    )[0]
+
+    return shocks
+
+def draw_events(rng, events, n_observations, cov_matrix):
+    """Decide which events fire and when, as (event index, start, shocks) tuples.
+
+    Draws happen in the same order as in lib/engine.ts: whether the event fires, its start
+    when that is random, then its shocks.
+    """
+    occurrences = []
+    for index, event in enumerate(events):
+        if rng.random() >= event['probability']:
+            continue
+        start = event['start']
+        if start < 0:
+            start = rng.integers(1, n_observations - event['duration'] + 1)
+        occurrences.append((index, int(start), simulate_event_shocks(rng, event['mean_shocks'], cov_matrix)))
+    return occurrences
+
+def event_log_returns(n_observations, n_currencies, events, occurrences):
+    """Log-return added by the events at every step, shape (n_observations - 1, n_currencies)"""
+    log_returns = np.zeros((n_observations - 1, n_currencies))
+
+    # Each shock is the total log-return of the event, spread over its duration by the event's profile
+    for index, start, shocks in occurrences:
+        profile = events[index]['profile']
+        t = np.arange(start, start + len(profile))
+        log_returns[t - 1] += np.outer(profile[t - start], shocks)
+    return log_returns
+
+def draw_model_shocks(rng, model, model_params, n_steps, n_currencies, dt):
+    """Pre-draw every random number a model needs, shape (n_steps, n_currencies, ...).
+
+    Draws are time-major, so models with a fixed number of normals per step consume the
+    stream in the same order as stepping one currency at a time.
+    """
+    if model == 'heston':
+        # Price and variance shocks for each step
+        return rng.standard_normal((n_steps, n_currencies, 2))
+
+    if model == 'merton':
+        diffusion = rng.standard_normal((n_steps, n_currencies))
+        n_jumps = rng.poisson(model_params['lambda'] * dt, (n_steps, n_currencies))
+        jump_sizes = rng.standard_normal((n_steps, n_currencies))
+        return np.stack([diffusion, n_jumps, jump_sizes], axis=-1)
+
+    return rng.standard_normal((n_steps, n_currencies))
+
+def cumulative_log_returns(model, model_params, mu, sigma, dt, shocks):
+    """Per-step log-returns of a cumulative model for all currencies at once (mirrors lib/models.ts)"""
+    sqrt_dt = np.sqrt(dt)
+
+    if model == 'gbm':
+        # GBM: d(log S) = (μ - σ²/2)dt + σdW
+        return (mu - 0.5 * sigma**2) * dt + sigma * sqrt_dt * shocks
+
+    if model == 'merton':
+        lam, jump_mean, jump_std = model_params['lambda'], model_params['jumpMean'], model_params['jumpStd']
+        k = np.exp(jump_mean + 0.5 * jump_std**2) - 1
+        drift = (mu - 0.5 * sigma**2 - lam * k) * dt
+        diffusion, n_jumps, jump_sizes = shocks[..., 0], shocks[..., 1], shocks[..., 2]
+        # The sum of n log-normal jumps is normal with mean n·m and std √n·s
+        return drift + sigma * sqrt_dt * diffusion + jump_mean * n_jumps + jump_std * np.sqrt(n_jumps) * jump_sizes
+
+    raise ValueError(f"Model {model} is not cumulative")
+
+def floored_cumsum(start, increments, floor):
+    """x[t] = max(x[t - 1] + increments[t], floor) along axis 0, without a Python loop.
+
+    Unrolling the recursion gives x[t] = S[t] + max(0, max over s <= t of (floor - S[s])),
+    where S is the unfloored cumulative sum.
+    """
+    unfloored = start + np.cumsum(increments, axis=0)
+    lift = np.maximum.accumulate(np.maximum(floor - unfloored, 0), axis=0)
+    return unfloored + lift
+
+def create_path_stepper(model, model_params, initial_prices, mu, sigma, dt):
+    """Return a function advancing every currency's price by one observation (mirrors lib/models.ts).
+
+    Used for models whose next price depends on the current one; shocks are one row of
+    draw_model_shocks.
+    """
+    sqrt_dt = np.sqrt(dt)
+
+    if model == 'random-walk':
+        # Arithmetic increments scaled to the initial price
+        drift = mu * initial_prices * dt
+        diffusion = sigma * initial_prices * sqrt_dt
+        return lambda prices, shocks: prices + drift + diffusion * shocks
+
+    if model == 'mean-reversion':
+        kappa = model_params['kappa']
+        state = {'theta': np.log(initial_prices * model_params['longRunLevel'])}
+        def step(prices, shocks):
+            state['theta'] = state['theta'] + mu * dt
+            x = np.log(prices)
+            return np.exp(x + kappa * (state['theta'] - x) * dt + sigma * sqrt_dt * shocks)
+        return step
+
+    if model == 'heston':
+        kappa, xi, rho = model_params['kappa'], model_params['xi'], model_params['rho']
+        theta = sigma**2
+        state = {'variance': theta}
+        def step(prices, shocks):
+            z1 = shocks[:, 0]
+            z2 = rho * z1 + np.sqrt(1 - rho**2) * shocks[:, 1]
+            v = np.maximum(state['variance'], 0.0)  # Full truncation
+            state['variance'] = state['variance'] + kappa * (theta - v) * dt + xi * np.sqrt(v) * sqrt_dt * z2
+            return prices * np.exp((mu - 0.5 * v) * dt + np.sqrt(v) * sqrt_dt * z1)
+        return step
+
+    if model == 'garch':
+        alpha, beta = model_params['alpha'], model_params['beta']
+        long_run_variance = sigma**2 * dt
+        omega = long_run_variance * (1 - alpha - beta)
+        state = {'variance': long_run_variance, 'shock': np.zeros_like(sigma)}
+        def step(prices, shocks):
+            state['variance'] = omega + alpha * state['shock']**2 + beta * state['variance']
+            state['shock'] = np.sqrt(state['variance']) * shocks
+            return prices * np.exp(mu * dt - 0.5 * state['variance'] + state['shock'])
+        return step
+
+    raise ValueError(f"Unknown process model: {model}")
+
+def apply_overrides(values, overrides):
+    """Replace sampled values with per-asset overrides where one is set (not NaN)"""
+    return np.where(np.isnan(overrides), values, overrides)
+
+def simulate_price_paths(rng, n_currencies, n_observations, base_price, initial_price_overrides, trends, volatilities,
+                        events, event_cov, dt, model, model_params):
+    """Simulate price paths using the selected process model with scheduled events"""
+
+    # Initialize price paths
+    prices = np.zeros((n_currencies, n_observations))
+
+    # Set initial prices (random around base price unless overridden)
+    initial_prices = base_price * (0.5 + rng.random(n_currencies))
+    prices[:, 0] = apply_overrides(initial_prices, initial_price_overrides)
+
+    occurrences = draw_events(rng, events, n_observations, event_cov)
+    events_log_returns = event_log_returns(n_observations, n_currencies, events, occurrences)
+    shocks = draw_model_shocks(rng, model, model_params, n_observations - 1, n_currencies, dt)
+
+    if model in CUMULATIVE_MODELS:
+        # Sum log-returns along time for all currencies at once, keeping prices above the floor
+        log_returns = cumulative_log_returns(model, model_params, trends, volatilities, dt, shocks) + events_log_returns
+        log_prices = floored_cumsum(np.log(prices[:, 0]), log_returns, np.log(FLOOR_PRICE))
+        prices[:, 1:] = np.exp(log_prices).T
+    else:
+        # State-dependent models still step through time, but across all currencies per step
+        step = create_path_stepper(model, model_params, prices[:, 0], trends, volatilities, dt)
+        event_multipliers = np.exp(events_log_returns)
+        for t in range(1, n_observations):
+            prices[:, t] = np.maximum(step(prices[:, t-1], shocks[t-1]) * event_multipliers[t-1], FLOOR_PRICE)
+
+    return prices, occurrences
+
+def calculate_realized_volatility(prices, steps_per_year):
+    """Calculate annualized realized volatility from price series"""
+    log_returns = np.diff(np.log(prices))
+    return np.std(log_returns, ddof=1) * np.sqrt(steps_per_year)
+
+def downsample_indices(prices, target_length):
+    """Observation indices kept for visualization: the first and last point of each bucket and the
+    deepest fall and highest rise of any currency in it, matching downsampleIndices in lib/engine.ts"""
+    n_observations = prices.shape[1]
+    if n_observations <= target_length:
+        return np.arange(n_observations)
+
+    n_buckets = max(1, target_length // 4)
+    indices = []
+    for b in range(n_buckets):
+        start = b * n_observations // n_buckets
+        end = (b + 1) * n_observations // n_buckets
+        bucket = prices[:, start:end]
+        lowest = np.argmin(bucket.min(axis=1) / bucket[:, 0])
+        highest = np.argmax(bucket.max(axis=1) / bucket[:, 0])
+        kept = [start, end - 1, start + bucket[lowest].argmin(), start + bucket[highest].argmax()]
+        indices.append(np.unique(kept))
+    return np.concatenate(indices)
+
+def analysis_indices(n_observations, target_length):
+    """Evenly spaced observation indices from the first to the last, matching analysisIndices in lib/engine.ts"""
+    if n_observations <= target_length:
+        return np.arange(n_observations)
+    return np.arange(target_length) * (n_observations - 1) // (target_length - 1)
+
+def calculate_rolling_volatility(prices, steps_per_year, window, t):
+    """Annualized realized volatility over a trailing window of log returns for every currency,
+    at observation indices t (mirrors calculateRollingVolatility in lib/engine.ts)"""
+    log_returns = np.diff(np.log(prices), axis=1)
+    # Prefix sums of log returns and their squares make every window O(1)
+    zeros = np.zeros((prices.shape[0], 1))
+    sums = np.concatenate([zeros, np.cumsum(log_returns, axis=1)], axis=1)
+    squares = np.concatenate([zeros, np.cumsum(log_returns**2, axis=1)], axis=1)
+
+    k = np.minimum(window, t)
+    valid = k >= 2
+    t, k = t[valid], k[valid]
+
+    mean = (sums[:, t] - sums[:, t - k]) / k
+    variance = (squares[:, t] - squares[:, t - k] - k * mean**2) / (k - 1)
+    rolling = np.zeros((prices.shape[0], len(valid)))
+    rolling[:, valid] = np.sqrt(np.maximum(variance, 0)) * np.sqrt(steps_per_year)
+    return rolling
+
+def calculate_effective_trends(prices, steps_per_year):
+    """Calculate effective trends (annualized returns)"""
+    total_returns = prices[:, -1] / prices[:, 0] - 1
+    time_in_years = (prices.shape[1] - 1) / steps_per_year
+    annualized_returns = (1 + total_returns) ** (1 / time_in_years) - 1
+    return annualized_returns
+
+def run_simulation(config, sim):
+    """Run one simulation index and return its full-resolution prices with the sampled components"""
+    rng = simulation_rng(config['random_seed'], sim)
+
+    # Generate correlated components
+    trends = apply_overrides(
+        generate_correlated_trends(rng, config['n_currencies'], config['trend_covariance']),
+        config['drift_overrides'],
+    )
+    volatilities = apply_overrides(
+        generate_correlated_volatilities(
+            rng, config['n_currencies'], config['volatility'], config['volatility_covariance']
+        ),
+        config['volatility_overrides'],
+    )
+
+    # Simulate price paths
+    prices, occurrences = simulate_price_paths(
+        rng, config['n_currencies'], config['n_observations'], config['base_price'],
+        config['initial_price_overrides'], trends, volatilities, config['events'],
+        config['extreme_event_covariance'], 1 / config['steps_per_year'], config['model'], config['model_params']
+    )
+    return prices, trends, volatilities, occurrences
+
+def run_simulations(config, report_progress=None):
+    """Run every simulation described by config; report_progress(completed, total) is called after each"""
+    config = dict(config)
+    # Covariance matrices are built and validated by resolveCovariances in lib/engine.ts
+    for key in ('trend_covariance', 'volatility_covariance', 'extreme_event_covariance',
+                'initial_price_overrides', 'drift_overrides', 'volatility_overrides'):
+        config[key] = np.array(config[key], dtype=float)
+    config['model_params'] = dict(config['model_params'])
+    # Events are validated and their profiles computed by resolveEvents in lib/events.ts
+    config['events'] = [
+        {**event, 'mean_shocks': np.array(event['mean_shocks'], dtype=float),
+         'profile': np.array(event['profile'], dtype=float)}
+        for event in config['events']
+    ]
+    steps_per_year = config['steps_per_year']
+
+    # Storage for all simulations
+    all_simulations = []
+
+    for sim in range(config['n_simulations']):
+        prices, trends, volatilities, occurrences = run_simulation(config, sim)
+
+        # Downsample for visualization, and evenly for the analysis
+        time = downsample_indices(prices, config['sample_points'])
+        sample_times = analysis_indices(prices.shape[1], config['sample_points'])
+
+        # Metrics are computed on the full-resolution path
+        realized_volatility = [
+            calculate_realized_volatility(path, steps_per_year) * 100 for path in prices  # Convert to percentage
+        ]
+        rolling_volatility = calculate_rolling_volatility(
+            prices, steps_per_year, config['volatility_window'], time
+        ) * 100
+        effective_trends = calculate_effective_trends(prices, steps_per_year)
+
+        # Store simulation results
+        all_simulations.append({
+            'time': time.tolist(),
+            'prices': prices[:, time].tolist(),
+            'samples': prices[:, sample_times].tolist(),
+            'trends': trends.tolist(),
+            'volatilities': volatilities.tolist(),
+            'events': [
+                {'event': index, 'start': start, 'shocks': shocks.tolist()} for index, start, shocks in occurrences
+            ],
+            'realizedVolatility': [float(v) for v in realized_volatility],
+            'rollingVolatility': rolling_volatility.tolist(),
+            'effectiveTrends': effective_trends.tolist()
+        })
+
+        if report_progress is not None:
+            report_progress(sim + 1, config['n_simulations'])
+
+    # The parameters are attached on the TypeScript side
+    return all_simulations
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+
+import { createRandomStream } from "./random"
+
+function draws(seed: number, stream: number, n = 8): number[] {
+  const random = createRandomStream(seed, stream)
+  return Array.from({ length: n }, () => random.nextUint32())
+}
+
+describe("createRandomStream", () => {
+  it("regenerates a stream from its seed and index", () => {
+    expect(draws(2151, 37)).toEqual(draws(2151, 37))
+  })
+
+  it("gives every (seed, stream) pair its own sequence", () => {
+    const seen = new Set<string>()
+    for (let seed = 0; seed < 64; seed++) {
+      for (let stream = 0; stream < 64; stream++) {
+        seen.add(draws(seed, stream, 4).join(","))
+      }
+    }
+    expect(seen.size).toBe(64 * 64)
+  })
+
+  it("does not confuse the seed with the stream index", () => {
+    expect(draws(1, 2)).not.toEqual(draws(2, 1))
+    expect(draws(0, 0)).not.toEqual(draws(0, 1))
+  })
+
+  it("draws uniforms in [0, 1) and standard normals", () => {
+    const random = createRandomStream(7, 0)
+    const uniforms = Array.from({ length: 100_000 }, () => random.uniform())
+    const normals = Array.from({ length: 100_000 }, () => random.normal())
+
+    expect(Math.min(...uniforms)).toBeGreaterThanOrEqual(0)
+    expect(Math.max(...uniforms)).toBeLessThan(1)
+    const mean = normals.reduce((sum, x) => sum + x, 0) / normals.length
+    const variance = normals.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (normals.length - 1)
+    expect(Math.abs(mean)).toBeLessThan(0.02)
+    expect(Math.abs(variance - 1)).toBeLessThan(0.02)
+  })
+})
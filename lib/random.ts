@@ -0,0 +1,79 @@
+// Seedable pseudo-random number generation with independent streams.
+//
+// The generator is xoshiro128** (period 2^128 - 1), seeded through splitmix32. Every
+// (seed, stream) pair maps to its own state, so simulation 37 of seed 2151 can be
+// regenerated with createRandomStream(2151, 37) without replaying simulations 0-36.
+// Two state words come from the seed and two from the stream; splitmix32 is a bijection,
+// so distinct pairs always start from distinct states.
+
+export interface RandomStream {
+  nextUint32: () => number // Uniform integer in [0, 2^32)
+  uniform: () => number // Uniform float in [0, 1) with 53 bits of precision
+  normal: () => number // Standard normal variate
+}
+
+export function createRandomStream(seed: number, stream = 0): RandomStream {
+  const seedMixer = splitmix32(Math.floor(seed) >>> 0)
+  const streamMixer = splitmix32(stream >>> 0)
+  let s0 = seedMixer()
+  let s1 = seedMixer()
+  let s2 = streamMixer()
+  let s3 = streamMixer()
+
+  // xoshiro128** must never start from the all-zero state
+  if ((s0 | s1 | s2 | s3) === 0) s0 = 1
+
+  function nextUint32(): number {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9)
+    const t = s1 << 9
+
+    s2 ^= s0
+    s3 ^= s1
+    s1 ^= s2
+    s0 ^= s3
+    s2 ^= t
+    s3 = rotl(s3, 11)
+
+    return result >>> 0
+  }
+
+  function uniform(): number {
+    const high = nextUint32() >>> 5 // 27 bits
+    const low = nextUint32() >>> 6 // 26 bits
+    return (high * 67108864 + low) / 9007199254740992 // 2^53
+  }
+
+  // Box-Muller transform; the second variate of each pair is kept for the next call
+  let spare: number | null = null
+  function normal(): number {
+    if (spare !== null) {
+      const value = spare
+      spare = null
+      return value
+    }
+
+    let u = 0
+    while (u === 0) u = uniform()
+    const v = uniform()
+    const radius = Math.sqrt(-2.0 * Math.log(u))
+    spare = radius * Math.sin(2.0 * Math.PI * v)
+    return radius * Math.cos(2.0 * Math.PI * v)
+  }
+
+  return { nextUint32, uniform, normal }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k))
+}
+
+function splitmix32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0
+    let z = state
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+    return (z ^ (z >>> 16)) >>> 0
+  }
+}
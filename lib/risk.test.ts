@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+
+import { priceFan } from "./analytics"
+import { analysisIndices, runEngine, upgradeLegacyTime } from "./engine"
+import { periodsPerYear } from "./risk"
+import { defaultFormValues } from "./simulation-schema"
+import { mean, standardDeviation } from "./statistics"
+import type { SimulationData, SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const params: SimulationParams = {
+  ...defaults,
+  randomSeed: 7,
+  nSimulations: 3,
+  nObservations: 100_000,
+  nCurrencies: 5,
+  extremeEventProbability: 0,
+  assets: [],
+}
+
+describe("price samples", () => {
+  const result = runEngine(params)
+
+  it("measure the volatility of the full-resolution path", () => {
+    // Downsampling for the charts keeps each bucket's extremes, which overstated it by about a quarter
+    const perYear = periodsPerYear(result)
+    const ratios = result.simulations.flatMap((sim) =>
+      sim.samples.map((series, c) => {
+        const returns = series.slice(1).map((price, t) => Math.log(price / series[t]))
+        return (standardDeviation(returns) * Math.sqrt(perYear) * 100) / sim.realizedVolatility[c]
+      }),
+    )
+    expect(mean(ratios)).toBeGreaterThan(0.95)
+    expect(mean(ratios)).toBeLessThan(1.05)
+  })
+
+  it("give the price fan every simulation's price at the same observations", () => {
+    const { time, percentiles } = priceFan(result, 0)
+    expect(time).toEqual(analysisIndices(params.nObservations))
+    expect(time.at(-1)).toBe(params.nObservations - 1)
+    expect(percentiles.every((series) => series.length === time.length)).toBe(true)
+  })
+
+  it("are taken from the last earlier chart point for runs stored without them", () => {
+    const { samples, ...legacy } = result.simulations[0]
+    const upgraded = upgradeLegacyTime(legacy as SimulationData, params.nObservations)
+    const grid = analysisIndices(params.nObservations)
+
+    upgraded.samples[0].forEach((price, i) => {
+      const t = legacy.time.findLastIndex((time) => time <= grid[i])
+      expect(price).toBe(legacy.prices[0][t])
+    })
+    expect(upgraded.samples[0][0]).toBe(samples[0][0])
+  })
+})
@@ -0,0 +1,146 @@
+import { percentile } from "./analytics"
+import { STEPS_PER_YEAR, analysisIndices } from "./engine"
+import { mean, standardDeviation } from "./statistics"
+import type { AggregateRiskMetrics, RiskMetrics, RiskReport, SimulationResult } from "./types"
+
+export interface RiskOptions {
+  confidenceLevel: number // e.g. 0.95 for the 95% VaR
+  riskFreeRate: number // Annualized, used by the Sharpe and Sortino ratios
+}
+
+export const defaultRiskOptions: RiskOptions = {
+  confidenceLevel: 0.95,
+  riskFreeRate: 0,
+}
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99]
+
+// Price samples per year. The samples are evenly spaced over the run (see analysisIndices).
+export function periodsPerYear(result: SimulationResult): number {
+  const time = analysisIndices(result.params.nObservations)
+  const span = time[time.length - 1] - time[0]
+  return (STEPS_PER_YEAR[result.params.timeStep] * (time.length - 1)) / span
+}
+
+// Value at risk and expected shortfall of a set of returns, as positive loss fractions
+export function valueAtRisk(returns: number[], confidenceLevel: number): { var: number; cvar: number } {
+  const sorted = [...returns].sort((a, b) => a - b)
+  const cutoff = percentile(sorted, (1 - confidenceLevel) * 100)
+  const tail = sorted.filter((r) => r <= cutoff)
+  return { var: -cutoff, cvar: -mean(tail) }
+}
+
+// Largest peak-to-trough decline and the longest stretch (in periods) spent below a previous peak
+export function drawdown(values: number[]): { maxDrawdown: number; maxDuration: number } {
+  let peak = values[0]
+  let peakIndex = 0
+  let maxDrawdown = 0
+  let maxDuration = 0
+
+  values.forEach((value, t) => {
+    if (value >= peak) {
+      peak = value
+      peakIndex = t
+    } else {
+      maxDrawdown = Math.max(maxDrawdown, 1 - value / peak)
+    }
+    maxDuration = Math.max(maxDuration, t - peakIndex)
+  })
+
+  return { maxDrawdown, maxDuration }
+}
+
+// Maximum drawdown of one currency in every simulation
+export function maxDrawdowns(result: SimulationResult, currency: number): number[] {
+  return result.simulations.map((sim) => drawdown(sim.samples[currency]).maxDrawdown)
+}
+
+// Value of a portfolio that splits its capital equally across currencies at the start and then holds
+export function equalWeightPortfolio(prices: number[][]): number[] {
+  return prices[0].map((_, t) => mean(prices.map((series) => series[t] / series[0])))
+}
+
+export function riskMetrics(values: number[], periodsPerYear: number, options: RiskOptions): RiskMetrics {
+  const returns = values.slice(1).map((value, t) => value / values[t] - 1)
+  const years = returns.length / periodsPerYear
+  const excess = returns.map((r) => r - options.riskFreeRate / periodsPerYear)
+  const excessMean = mean(excess)
+  const downsideDeviation = Math.sqrt(mean(excess.map((r) => Math.min(r, 0) ** 2)))
+  const { maxDrawdown, maxDuration } = drawdown(values)
+  const annualizedReturn = Math.pow(values[values.length - 1] / values[0], 1 / years) - 1
+
+  return {
+    ...valueAtRisk(returns, options.confidenceLevel),
+    maxDrawdown,
+    maxDrawdownDuration: maxDuration / periodsPerYear,
+    annualizedReturn,
+    sharpe: (excessMean / standardDeviation(excess)) * Math.sqrt(periodsPerYear),
+    sortino: (excessMean / downsideDeviation) * Math.sqrt(periodsPerYear),
+    calmar: annualizedReturn / maxDrawdown,
+  }
+}
+
+// Risk metrics of every currency and the equal-weight portfolio in one simulation
+export function simulationRisk(
+  result: SimulationResult,
+  index: number,
+  options: RiskOptions = defaultRiskOptions,
+): RiskReport {
+  const { samples } = result.simulations[index]
+  const perYear = periodsPerYear(result)
+  return {
+    currencies: samples.map((series) => riskMetrics(series, perYear, options)),
+    portfolio: riskMetrics(equalWeightPortfolio(samples), perYear, options),
+  }
+}
+
+// Median of the per-simulation metrics across all simulations (annualized figures of short runs
+// are too heavy-tailed to average), with Monte Carlo VaR/CVaR of the return over the whole
+// horizon taken from the spread of outcomes between simulations
+export function aggregateRisk(
+  result: SimulationResult,
+  options: RiskOptions = defaultRiskOptions,
+): RiskReport<AggregateRiskMetrics> {
+  const reports = result.simulations.map((_, i) => simulationRisk(result, i, options))
+  const portfolios = result.simulations.map((sim) => equalWeightPortfolio(sim.samples))
+
+  const aggregate = (metrics: RiskMetrics[], paths: number[][]): AggregateRiskMetrics => {
+    const horizonReturns = paths.map((path) => path[path.length - 1] / path[0] - 1)
+    const monteCarlo = valueAtRisk(horizonReturns, options.confidenceLevel)
+    const median = (key: keyof RiskMetrics) =>
+      percentile(
+        metrics
+          .map((m) => m[key])
+          .filter(Number.isFinite)
+          .sort((a, b) => a - b),
+        50,
+      )
+
+    return {
+      var: median("var"),
+      cvar: median("cvar"),
+      maxDrawdown: median("maxDrawdown"),
+      maxDrawdownDuration: median("maxDrawdownDuration"),
+      annualizedReturn: median("annualizedReturn"),
+      sharpe: median("sharpe"),
+      sortino: median("sortino"),
+      calmar: median("calmar"),
+      monteCarloVar: monteCarlo.var,
+      monteCarloCvar: monteCarlo.cvar,
+    }
+  }
+
+  const nCurrencies = result.simulations[0]?.samples.length ?? 0
+  return {
+    currencies: Array.from({ length: nCurrencies }, (_, c) =>
+      aggregate(
+        reports.map((r) => r.currencies[c]),
+        result.simulations.map((sim) => sim.samples[c]),
+      ),
+    ),
+    portfolio: aggregate(
+      reports.map((r) => r.portfolio),
+      portfolios,
+    ),
+  }
+}
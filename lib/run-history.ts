@@ -0,0 +1,205 @@
+import { upgradeLegacyTime } from "./engine"
+import { upgradeLegacyEvents } from "./events"
+import { models } from "./models"
+import type { RunRecord, SimulationEngine, SimulationResult } from "./types"
+
+const DB_NAME = "trading-simulation-dashboard"
+const DB_VERSION = 1
+// Run metadata, small enough to list every run at once
+const RUNS_STORE = "runs"
+// Full results keyed by run id, only read when a run is opened
+const RESULTS_STORE = "results"
+
+// Runs larger than this are never stored, however much quota the browser grants
+export const MAX_RUN_BYTES = 250 * 1024 * 1024
+
+// Raised when a run cannot be stored without exceeding the history limit or the browser quota
+export class StorageQuotaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StorageQuotaError"
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available, so runs cannot be saved."))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RUNS_STORE, { keyPath: "id" })
+        request.result.createObjectStore(RESULTS_STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again, e.g. after the user allows storage
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(toStorageError(transaction.error))
+    transaction.onabort = () => reject(toStorageError(transaction.error))
+  })
+}
+
+function toStorageError(error: DOMException | null): Error {
+  if (error?.name === "QuotaExceededError") {
+    return new StorageQuotaError("The browser's storage quota is full; delete some runs from the history.")
+  }
+  return error ?? new Error("The run history transaction was aborted.")
+}
+
+// Size of the results as stored: 8 bytes per number in the per-point series, which dominate
+export function estimateResultBytes(result: SimulationResult): number {
+  let numbers = 0
+  for (const sim of result.simulations) {
+    for (const series of sim.prices) numbers += series.length
+    for (const series of sim.samples) numbers += series.length
+    for (const series of sim.rollingVolatility) numbers += series.length
+    numbers += sim.trends.length * 5
+  }
+  return numbers * 8
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Pinned runs first, then newest first
+export function compareRuns(a: RunRecord, b: RunRecord): number {
+  return Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt
+}
+
+export async function listRuns(): Promise<RunRecord[]> {
+  const db = await openDatabase()
+  const runs = await requestResult(
+    db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll() as IDBRequest<RunRecord[]>,
+  )
+  // Runs stored before the TypeScript engine could also run in the browser all ran on the server
+  return runs
+    .map((run) => ((run.engine as string) === "typescript" ? { ...run, engine: "server" as const } : run))
+    .sort(compareRuns)
+}
+
+export async function loadRunResults(id: string): Promise<SimulationResult> {
+  const db = await openDatabase()
+  const result = await requestResult(db.transaction(RESULTS_STORE).objectStore(RESULTS_STORE).get(id))
+  if (!result) throw new Error("The results of this run are no longer stored.")
+  const { params, simulations, engine } = result as SimulationResult
+  return {
+    params,
+    simulations: simulations.map((sim) => upgradeLegacyTime(upgradeLegacyEvents(sim), params.nObservations)),
+    engine,
+  }
+}
+
+// Store a finished run. When the browser quota is short, the oldest unpinned runs are evicted
+// until it fits; the ids of evicted runs are returned so the caller can update its list.
+export async function saveRun(
+  results: SimulationResult,
+  engine: SimulationEngine,
+): Promise<{ run: RunRecord; evicted: string[] }> {
+  const sizeBytes = estimateResultBytes(results)
+  if (sizeBytes > MAX_RUN_BYTES) {
+    throw new StorageQuotaError(
+      `This run needs about ${formatBytes(sizeBytes)}, more than the ${formatBytes(MAX_RUN_BYTES)} a stored run may use.`,
+    )
+  }
+
+  const evicted = await makeRoom(sizeBytes)
+  const model = models[results.params.model ?? "gbm"]
+  const run: RunRecord = {
+    id: crypto.randomUUID(),
+    label: `${model.label}, seed ${results.params.randomSeed}`,
+    createdAt: Date.now(),
+    engine,
+    pinned: false,
+    params: results.params,
+    sizeBytes,
+  }
+
+  const db = await openDatabase()
+  const transaction = db.transaction([RUNS_STORE, RESULTS_STORE], "readwrite")
+  transaction.objectStore(RUNS_STORE).put(run)
+  transaction.objectStore(RESULTS_STORE).put(results, run.id)
+  await transactionDone(transaction)
+
+  return { run, evicted }
+}
+
+export async function updateRun(id: string, changes: Partial<Pick<RunRecord, "label" | "pinned">>): Promise<RunRecord> {
+  const db = await openDatabase()
+  const transaction = db.transaction(RUNS_STORE, "readwrite")
+  const store = transaction.objectStore(RUNS_STORE)
+  let updated: RunRecord | undefined
+
+  // Read and write inside the request callback, since the transaction closes once control leaves it
+  const request = store.get(id)
+  request.onsuccess = () => {
+    if (!request.result) return
+    updated = { ...(request.result as RunRecord), ...changes }
+    store.put(updated)
+  }
+  await transactionDone(transaction)
+
+  if (!updated) throw new Error("This run is no longer stored.")
+  return updated
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([RUNS_STORE, RESULTS_STORE], "readwrite")
+  transaction.objectStore(RUNS_STORE).delete(id)
+  transaction.objectStore(RESULTS_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+// Evict the oldest unpinned runs until sizeBytes fits into the free quota
+async function makeRoom(sizeBytes: number): Promise<string[]> {
+  // Without the StorageManager API the write itself reports a full quota
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return []
+
+  const { usage = 0, quota = Infinity } = await navigator.storage.estimate()
+  let free = quota - usage
+  if (free >= sizeBytes) return []
+
+  // Plan the evictions first so nothing is deleted when the run would not fit anyway
+  const candidates = (await listRuns()).filter((run) => !run.pinned).sort((a, b) => a.createdAt - b.createdAt)
+  const evicted: string[] = []
+  for (const run of candidates) {
+    if (free >= sizeBytes) break
+    evicted.push(run.id)
+    free += run.sizeBytes
+  }
+
+  if (free < sizeBytes) {
+    throw new StorageQuotaError(
+      `This run needs about ${formatBytes(sizeBytes)} but only ${formatBytes(Math.max(free, 0))} of browser storage is ` +
+        "free, even after removing every unpinned run.",
+    )
+  }
+
+  for (const id of evicted) await deleteRun(id)
+  return evicted
+}
@@ -0,0 +1,46 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate"
+
+import { formSchema, formatSchemaError, upgradeLegacyEngine, type SimulationFormValues } from "./simulation-schema"
+
+// Name of the URL hash parameter holding the shared form state, e.g. #params=eJy...
+export const SHARE_HASH_PARAM = "params"
+
+// Form values as compressed, URL-safe base64 JSON. Hashes are never sent to the server, so long
+// configurations with custom matrices don't run into request size limits.
+export function encodeFormValues(values: SimulationFormValues): string {
+  const bytes = deflateSync(strToU8(JSON.stringify(values)), { level: 9 })
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+// Inverse of encodeFormValues, validating the result against the form schema
+export function decodeFormValues(encoded: string): SimulationFormValues {
+  let json: unknown
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+    json = JSON.parse(strFromU8(inflateSync(Uint8Array.from(binary, (c) => c.charCodeAt(0)))))
+  } catch {
+    throw new Error("The link is damaged or incomplete.")
+  }
+
+  const parsed = formSchema.safeParse(upgradeLegacyEngine(json))
+  if (!parsed.success) {
+    throw new Error(`The link contains invalid parameters:\n${formatSchemaError(parsed.error)}`)
+  }
+  return parsed.data
+}
+
+// The current page URL with the form values in its hash
+export function shareUrl(values: SimulationFormValues, base: string): string {
+  const url = new URL(base)
+  url.hash = `${SHARE_HASH_PARAM}=${encodeFormValues(values)}`
+  return url.toString()
+}
+
+// Encoded form values in a URL hash, or null when it carries none
+export function sharedParamsFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_HASH_PARAM)
+}
@@ -0,0 +1,119 @@
+import { resolveAssets } from "./assets"
+import { ENGINE_VERSION, resolveCovariance } from "./engine"
+import { resolveEvents } from "./events"
+import { resolveModelParams } from "./models"
+import { simulationParamsSchema } from "./simulation-schema"
+import type { EngineInfo, ParameterIssue, SimulationErrorResponse, SimulationParams } from "./types"
+
+// Largest run an endpoint computes, in simulated prices (simulations × observations × currencies),
+// and where larger runs can go instead. The default parameters need about 131 million.
+export interface PriceBudget {
+  maxPricePoints: number
+  largerRuns: string
+}
+
+// POST /api/simulate computes the whole run in one go, which holds up every other request
+export const SIMULATE_BUDGET: PriceBudget = {
+  maxPricePoints: 10_000_000,
+  largerRuns: "stream it from POST /api/simulate/stream",
+}
+
+// The stream yields between simulations, so other requests are served while it runs
+export const STREAM_BUDGET: PriceBudget = {
+  maxPricePoints: 250_000_000,
+  largerRuns: "queue it with POST /api/jobs",
+}
+
+// Background jobs are not bound by request timeouts, so they may be larger. They still run on the
+// server's event loop, taking turns with requests between simulations, which keeps them capped.
+export const JOB_BUDGET: PriceBudget = {
+  maxPricePoints: 500_000_000,
+  largerRuns: "use the Python engine in the browser",
+}
+
+export type SimulationRequest = { params: SimulationParams } | { error: SimulationErrorResponse }
+
+// Validate the body of a simulation request: field types and ranges first, then whether the
+// fields are consistent with each other, then the endpoint's compute budget
+export function parseSimulationRequest(body: unknown, budget: PriceBudget): SimulationRequest {
+  const parsed = simulationParamsSchema.safeParse(body)
+  if (!parsed.success) {
+    return invalid(parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })))
+  }
+
+  const params = parsed.data
+  const issues = consistencyIssues(params)
+  if (issues.length > 0) return invalid(issues)
+
+  const pricePoints = params.nSimulations * params.nObservations * params.nCurrencies
+  if (pricePoints > budget.maxPricePoints) {
+    return {
+      error: {
+        code: "budget_exceeded",
+        error:
+          `The run needs ${pricePoints.toLocaleString("en-US")} price points (simulations × observations × ` +
+          `currencies) but this endpoint computes at most ${budget.maxPricePoints.toLocaleString("en-US")}. ` +
+          `Reduce nSimulations, nObservations or nCurrencies, or ${budget.largerRuns}.`,
+      },
+    }
+  }
+
+  return { params }
+}
+
+// Read and validate the JSON body of a simulation request
+export async function readSimulationRequest(request: Request, budget: PriceBudget): Promise<SimulationRequest> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { error: { code: "invalid_json", error: "The request body is not valid JSON." } }
+  }
+  return parseSimulationRequest(body, budget)
+}
+
+function invalid(issues: ParameterIssue[]): SimulationRequest {
+  return { error: { code: "invalid_params", error: "Invalid simulation parameters", issues } }
+}
+
+// Run the engine's own validation, attributing each failure to the field that configures it
+function consistencyIssues(params: SimulationParams): ParameterIssue[] {
+  const checks: [string, () => unknown][] = [
+    ["assets", () => resolveAssets(params)],
+    [params.events ? "events" : "extremeEventDuration", () => resolveEvents(params)],
+    ["modelParams", () => resolveModelParams(params.model ?? "gbm", params.modelParams)],
+    [params.trendStructure ? "trendStructure" : "covariance", () => resolveCovariance(params, "trend")],
+    [
+      params.volatilityStructure ? "volatilityStructure" : "volatilityCovariance",
+      () => resolveCovariance(params, "volatility"),
+    ],
+    [
+      params.extremeEventStructure ? "extremeEventStructure" : "extremeEventCovariance",
+      () => resolveCovariance(params, "extremeEvent"),
+    ],
+  ]
+
+  return checks.flatMap(([path, check]) => {
+    try {
+      check()
+      return []
+    } catch (error) {
+      return [{ path, message: error instanceof Error ? error.message : String(error) }]
+    }
+  })
+}
+
+// Recorded with every result the API computes
+export function serverEngineInfo(): EngineInfo {
+  return { engine: "server", version: ENGINE_VERSION, runtime: `Node.js ${process.versions.node}` }
+}
+
+export function jobNotFound(id: string): SimulationErrorResponse {
+  return { code: "job_not_found", error: `Job ${id} does not exist or has expired.` }
+}
+
+// Human-readable summary of an error response, one invalid field per line
+export function formatSimulationError(response: SimulationErrorResponse): string {
+  const issues = response.issues?.map((issue) => `${issue.path || "body"}: ${issue.message}`) ?? []
+  return [response.error, ...issues].join("\n")
+}
@@ -0,0 +1,121 @@
+import { z } from "zod"
+
+import { defaultAssets } from "./assets"
+import { ENGINE_IDS } from "./engine"
+import { EVENT_DECAY_SHAPE_IDS } from "./events"
+import { MODEL_IDS, defaultModelParams } from "./models"
+
+// Objects are strict, so a misspelled field is reported instead of silently ignored
+const correlationStructureSchema = z
+  .object({
+    variances: z.array(z.number()),
+    correlation: z.array(z.array(z.number())),
+  })
+  .strict()
+
+const assetSchema = z
+  .object({
+    name: z.string().trim().min(1).max(20),
+    initialPrice: z.number().positive().optional(),
+    drift: z.number().optional(),
+    volatility: z.number().min(0).optional(),
+    color: z.string().optional(),
+  })
+  .strict()
+
+const eventSchema = z
+  .object({
+    name: z.string().trim().min(1).max(40),
+    probability: z.number().min(0).max(1),
+    start: z.number().int().min(1).optional(),
+    duration: z.number().int().min(1),
+    meanShocks: z.array(z.number()),
+    decay: z.enum(EVENT_DECAY_SHAPE_IDS),
+  })
+  .strict()
+
+// Bounds of the numeric parameters, shared by the form (which coerces input strings) and the API
+// (which expects JSON numbers)
+function numericFields(number: () => z.ZodNumber) {
+  return {
+    randomSeed: number().int(),
+    nSimulations: number().int().min(1).max(1000),
+    nObservations: number().int().min(100).max(1000000),
+    basePrice: number().min(1),
+    nCurrencies: number().int().min(1).max(20),
+    transactionFee: number().min(0).max(1),
+    variance: number().min(0).max(1),
+    covariance: number().min(0).max(1),
+    volatility: number().min(0.1).max(20),
+    volatilityCovariance: number().min(0.1).max(10),
+    volatilityWindow: number().int().min(2).max(1000000),
+    extremeEventProbability: number().min(0).max(1),
+    extremeEventVariance: number().min(1).max(10000),
+    extremeEventCovariance: number().min(1).max(10000),
+    extremeEventDuration: number().int().min(1).max(100000),
+    modelParams: z.record(number()),
+  }
+}
+
+const structureFields = {
+  timeStep: z.enum(["minute", "hour", "day"]),
+  model: z.enum(MODEL_IDS),
+  trendStructure: correlationStructureSchema.optional(),
+  volatilityStructure: correlationStructureSchema.optional(),
+  extremeEventStructure: correlationStructureSchema.optional(),
+  events: z.array(eventSchema).max(20).optional(),
+  assets: z.array(assetSchema),
+}
+
+// Parameters of the sidebar form. Defaults live in defaultFormValues so the schema's input and
+// output types match.
+export const formSchema = z.object({
+  engine: z.enum(ENGINE_IDS),
+  ...numericFields(z.coerce.number),
+  ...structureFields,
+})
+
+// Body of POST /api/simulate: SimulationParams, with the same optional fields
+export const simulationParamsSchema = z
+  .object({ ...numericFields(z.number), ...structureFields })
+  .partial({ volatilityWindow: true, model: true, modelParams: true, assets: true })
+  .strict()
+
+export type SimulationFormValues = z.infer<typeof formSchema>
+
+export const defaultFormValues: SimulationFormValues = {
+  engine: "python",
+  randomSeed: 2151,
+  nSimulations: 100,
+  nObservations: 60 * 24 * 7 * 26,
+  timeStep: "minute",
+  basePrice: 2000,
+  nCurrencies: 5,
+  transactionFee: 0.0006,
+  variance: 0.012 * 0.012,
+  covariance: 0.007 * 0.007,
+  volatility: 3,
+  volatilityCovariance: 0.6,
+  volatilityWindow: 60 * 24 * 30,
+  extremeEventProbability: 0.05,
+  extremeEventVariance: 500,
+  extremeEventCovariance: 450,
+  extremeEventDuration: 60 * 24,
+  assets: defaultAssets(5),
+  model: "gbm",
+  modelParams: defaultModelParams("gbm"),
+}
+
+// Presets and links saved before the TypeScript engine could also run in the browser name the
+// server engine "typescript"
+export function upgradeLegacyEngine(values: unknown): unknown {
+  if (values && typeof values === "object" && "engine" in values && values.engine === "typescript") {
+    return { ...values, engine: "server" }
+  }
+  return values
+}
+
+// Human-readable summary of why values failed the schema, one issue per line
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`).join("\n")
+}
@@ -1,18 +1,97 @@
 "use client"
 
 import { create } from "zustand"
-import type { SimulationResult } from "./types"
+import { compareRuns, deleteRun, listRuns, loadRunResults, saveRun, updateRun } from "./run-history"
+import type {
+  EngineInfo,
+  RunRecord,
+  SimulationData,
+  SimulationEngine,
+  SimulationParams,
+  SimulationResult,
+} from "./types"
+
+export type PythonEngineStatus = "loading" | "ready" | "failed"
 
 interface SimulationStore {
   results: SimulationResult | null
+  // Results that are not part of the history, e.g. an imported bundle
   setResults: (results: SimulationResult) => void
-  isPyodideReady: boolean
-  setIsPyodideReady: (isReady: boolean) => void
+  // Show a simulation of a run that is still coming in. Simulation 0, or the first one for a new
+  // params object, replaces the shown results; recordRun takes over once the run is complete.
+  appendSimulation: (params: SimulationParams, simulation: SimulationData, index: number, engine: EngineInfo) => void
+  // Engine chosen in the sidebar, which the parameter sweep runs on too
+  selectedEngine: SimulationEngine
+  setSelectedEngine: (engine: SimulationEngine) => void
+  pythonEngineStatus: PythonEngineStatus
+  // Why the Python engine could not start, when it failed
+  pythonEngineError: string | null
+  setPythonEngineStatus: (status: PythonEngineStatus, error?: string | null) => void
+
+  // Stored runs, pinned first then newest first, and the one currently shown
+  runs: RunRecord[]
+  activeRunId: string | null
+  loadRuns: () => Promise<void>
+  // Show a finished run and add it to the history. Rejects when it could not be stored,
+  // in which case the results are still shown.
+  recordRun: (results: SimulationResult, engine: SimulationEngine) => Promise<void>
+  openRun: (id: string) => Promise<void>
+  renameRun: (id: string, label: string) => Promise<void>
+  togglePinned: (id: string) => Promise<void>
+  deleteRun: (id: string) => Promise<void>
 }
 
-export const useSimulationStore = create<SimulationStore>((set) => ({
+export const useSimulationStore = create<SimulationStore>((set, get) => ({
   results: null,
-  setResults: (results) => set({ results }),
-  isPyodideReady: false,
-  setIsPyodideReady: (isReady: boolean) => set({ isPyodideReady: isReady }),
+  setResults: (results) => set({ results, activeRunId: null }),
+  appendSimulation: (params, simulation, index, engine) =>
+    set((state) => ({
+      results: {
+        params,
+        simulations:
+          index > 0 && state.results?.params === params ? [...state.results.simulations, simulation] : [simulation],
+        engine,
+      },
+      activeRunId: null,
+    })),
+  selectedEngine: "python",
+  setSelectedEngine: (engine) => set({ selectedEngine: engine }),
+  pythonEngineStatus: "loading",
+  pythonEngineError: null,
+  setPythonEngineStatus: (status, error = null) => set({ pythonEngineStatus: status, pythonEngineError: error }),
+
+  runs: [],
+  activeRunId: null,
+  loadRuns: async () => set({ runs: await listRuns() }),
+  recordRun: async (results, engine) => {
+    set({ results, activeRunId: null })
+    const { run, evicted } = await saveRun(results, engine)
+    set((state) => ({
+      runs: [run, ...state.runs.filter((r) => !evicted.includes(r.id))].sort(compareRuns),
+      // Another run may have been opened while this one was being stored
+      activeRunId: state.results === results ? run.id : state.activeRunId,
+    }))
+  },
+  openRun: async (id) => {
+    const results = await loadRunResults(id)
+    set({ results, activeRunId: id })
+  },
+  renameRun: async (id, label) => {
+    const updated = await updateRun(id, { label })
+    set((state) => ({ runs: state.runs.map((r) => (r.id === id ? updated : r)) }))
+  },
+  togglePinned: async (id) => {
+    const run = get().runs.find((r) => r.id === id)
+    if (!run) return
+    const updated = await updateRun(id, { pinned: !run.pinned })
+    set((state) => ({ runs: state.runs.map((r) => (r.id === id ? updated : r)).sort(compareRuns) }))
+  },
+  deleteRun: async (id) => {
+    await deleteRun(id)
+    set((state) => ({
+      runs: state.runs.filter((r) => r.id !== id),
+      // The shown results stay on screen but no longer belong to a stored run
+      activeRunId: state.activeRunId === id ? null : state.activeRunId,
+    }))
+  },
 }))
@@ -1,314 +1,223 @@
-import type { SimulationResult } from "./types"
-
-interface SimulationParams {
-  // General Settings
-  randomSeed: number
-  numSimulations: number
-  numObservations: number
-  numCurrencies: number
-  basePrice: number
-  transactionFee: number
+import { ENGINE_VERSION, engineSimulations } from "./engine"
+import { PythonSimulationError, SimulationCancelledError, runPythonSimulation } from "./python-simulation"
+import { formatSimulationError } from "./simulation-api"
+import { useSimulationStore } from "./simulation-store"
+import type {
+  EngineInfo,
+  ParameterIssue,
+  SimulationData,
+  SimulationEngine,
+  SimulationErrorResponse,
+  SimulationParams,
+  SimulationResult,
+  SimulationStreamMessage,
+} from "./types"
+
+// An error response from the API. Parameters it rejected would fail the same way in the browser,
+// so these never cause a fallback.
+export class SimulationRequestError extends Error {
+  readonly code: SimulationErrorResponse["code"]
+  readonly issues: ParameterIssue[]
+
+  constructor(response: SimulationErrorResponse) {
+    super(formatSimulationError(response))
+    this.name = "SimulationRequestError"
+    this.code = response.code
+    this.issues = response.issues ?? []
+  }
+}
 
-  // Trend & Volatility
-  trendVariance: number
-  trendCovariance: number
-  baseVolatility: number
-  volatilityCovariance: number
+// The API could not be reached or did not answer, e.g. a gateway timeout. The browser can stand in.
+export class ServerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ServerUnavailableError"
+  }
+}
 
-  // Extreme Events
-  extremeEventProbability: number
-  extremeEventVariance: number
-  extremeEventCovariance: number
-  extremeEventDuration: number
+export interface StreamSimulationOptions {
+  onProgress?: (completed: number, total: number) => void
+  // Called with every simulation as it comes in, e.g. to fill in the charts live
+  onSimulation?: (simulation: SimulationData, index: number, engine: EngineInfo) => void
+  signal?: AbortSignal
 }
 
+// Run on the server in one request, without streaming
 export async function runSimulation(params: SimulationParams): Promise<SimulationResult> {
+  let response: Response
   try {
-    const response = await fetch("/api/simulate", {
+    response = await fetch("/api/simulate", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(params),
     })
-
-    if (!response.ok) {
-      throw new Error(`Simulation failed: ${response.statusText}`)
-    }
-
-    const results = await response.json()
-    return results
   } catch (error) {
-    console.error("Error in runSimulation:", error)
-
-    // Fallback to client-side simulation if API fails
-    console.log("Falling back to client-side simulation")
-
-    // Simulate a delay to mimic computation time
-    await new Promise((resolve) => setTimeout(resolve, 1000))
-
-    // Generate simulations using proper stochastic processes
-    const simulations = []
-
-    // Set random seed for reproducibility
-    let seedState = params.randomSeed
-
-    // Seeded random number generator
-    function seededRandom() {
-      seedState = (seedState * 9301 + 49297) % 233280
-      return seedState / 233280
-    }
-
-    // Box-Muller transform for normal distribution with seed
-    function seededNormalRandom() {
-      let u = 0,
-        v = 0
-      while (u === 0) u = seededRandom()
-      while (v === 0) v = seededRandom()
-      return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v)
-    }
-
-    for (let sim = 0; sim < params.numSimulations; sim++) {
-      // Generate correlated trend components using Cholesky decomposition
-      const trendComponents = generateMultivariateNormal(
-        params.numCurrencies,
-        0, // mean
-        params.trendVariance,
-        params.trendCovariance,
-        seededNormalRandom,
-      )
-
-      // Generate correlated volatility components
-      const volatilityComponents = generateMultivariateNormal(
-        params.numCurrencies,
-        params.baseVolatility / 100, // convert percentage to decimal
-        (params.baseVolatility / 100) ** 2 * 0.1, // volatility variance
-        params.volatilityCovariance / 10000, // covariance
-        seededNormalRandom,
-      ).map((v) => Math.abs(v)) // ensure positive volatility
-
-      // Determine extreme event timing
-      const extremeEvent = seededRandom() < params.extremeEventProbability
-      const extremeEventStart = extremeEvent
-        ? Math.floor(seededRandom() * (params.numObservations - params.extremeEventDuration))
-        : -1
-
-      // Generate extreme event shocks if applicable
-      let extremeEventShocks: number[] = []
-      if (extremeEvent) {
-        extremeEventShocks = generateMultivariateNormal(
-          params.numCurrencies,
-          -0.1, // negative mean for market crash
-          params.extremeEventVariance / 10000,
-          params.extremeEventCovariance / 10000,
-          seededNormalRandom,
-        )
-      }
-
-      // Generate price paths using geometric Brownian motion with jumps
-      const prices: number[][] = []
-      const logPrices: number[][] = []
-
-      for (let c = 0; c < params.numCurrencies; c++) {
-        const initialPrice = params.basePrice * (0.5 + seededRandom()) // Random initial price
-        const pricePath = [initialPrice]
-        const logPricePath = [Math.log(initialPrice)]
-
-        // Trend and volatility for this currency
-        const mu = trendComponents[c] // drift coefficient
-        const sigma = volatilityComponents[c] // volatility coefficient
-
-        for (let t = 1; t < params.numObservations; t++) {
-          // Standard geometric Brownian motion increment
-          const dt = 1 / 252 // daily time step (assuming 252 trading days per year)
-          const dW = Math.sqrt(dt) * seededNormalRandom() // Brownian motion increment
-
-          // GBM: dS/S = μdt + σdW
-          // Solution: S(t) = S(0) * exp((μ - σ²/2)t + σW(t))
-          const drift = (mu - 0.5 * sigma * sigma) * dt
-          const diffusion = sigma * dW
-
-          let logReturn = drift + diffusion
-
-          // Add extreme event shock if applicable
-          if (extremeEvent && t >= extremeEventStart && t < extremeEventStart + params.extremeEventDuration) {
-            // Apply extreme event shock with decay
-            const eventProgress = (t - extremeEventStart) / params.extremeEventDuration
-            const decayFactor = Math.exp(-3 * eventProgress) // exponential decay
-            logReturn += extremeEventShocks[c] * decayFactor * dt
-          }
-
-          // Update log price and convert to price
-          const newLogPrice = logPricePath[t - 1] + logReturn
-          const newPrice = Math.exp(newLogPrice)
-
-          logPricePath.push(newLogPrice)
-          pricePath.push(Math.max(newPrice, 0.01)) // ensure positive prices
-        }
-
-        // Sample the path for visualization (reduce data points)
-        const sampledPath = samplePath(pricePath, Math.min(500, params.numObservations))
-        prices.push(sampledPath)
-        logPrices.push(samplePath(logPricePath, Math.min(500, params.numObservations)))
-      }
-
-      // Calculate realized volatility using log returns
-      const realizedVolatility = calculateRealizedVolatilityFromLogPrices(logPrices[0]) * 100
-
-      // Calculate effective trends (annualized returns)
-      const effectiveTrends = prices.map((pricePath) => {
-        const totalReturn = pricePath[pricePath.length - 1] / pricePath[0] - 1
-        const timeInYears = (pricePath.length - 1) / 252 // convert time steps to years
-        return Math.pow(1 + totalReturn, 1 / timeInYears) - 1 // annualized return
-      })
-
-      simulations.push({
-        prices,
-        trends: trendComponents,
-        volatilities: volatilityComponents,
-        extremeEvent,
-        extremeEventIndex: extremeEvent ? extremeEventStart : null,
-        realizedVolatility,
-        effectiveTrends,
-      })
-    }
-
-    return {
-      simulations,
-      params,
-    }
+    throw new ServerUnavailableError(`The simulation server could not be reached: ${errorMessage(error)}`)
   }
-}
-
-// Helper function to generate a random number from a standard normal distribution
-function generateNormalRandom(): number {
-  let u = 0,
-    v = 0
-  while (u === 0) u = Math.random()
-  while (v === 0) v = Math.random()
 
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v)
+  await checkResponse(response)
+  return response.json()
 }
 
-// Helper function to generate correlated random numbers
-function generateCorrelatedRandoms(n: number, mean: number, variance: number, covariance: number): number[] {
-  // For simplicity, we'll use a basic approach to generate correlated random numbers
-  // In a real implementation, you might want to use Cholesky decomposition
+// Run on the engine selected in the sidebar. The server's TypeScript engine runs the same model,
+// and stands in when Python could not start.
+export async function runOnEngine(
+  params: SimulationParams,
+  engine: SimulationEngine,
+  options: StreamSimulationOptions = {},
+): Promise<SimulationResult> {
+  if (engine !== "python") return runTypeScriptEngine(params, engine, options)
+
+  const { pythonEngineStatus, pythonEngineError } = useSimulationStore.getState()
+  if (pythonEngineStatus === "ready") return runPythonSimulation(params, options)
+  if (pythonEngineStatus === "loading")
+    throw new PythonSimulationError({ message: "The Python engine is still loading." })
+
+  const reason = `The Python engine could not start${pythonEngineError ? `: ${pythonEngineError}` : "."}`
+  return withFallback(await runTypeScriptEngine(params, "server", options), "python", reason)
+}
 
-  const commonFactor = generateNormalRandom() * Math.sqrt(covariance)
-  const result = []
+// Run on the selected TypeScript engine. When the server is unavailable the browser runs the
+// simulations instead, and the result records the fallback.
+export async function runTypeScriptEngine(
+  params: SimulationParams,
+  engine: Exclude<SimulationEngine, "python">,
+  options: StreamSimulationOptions = {},
+): Promise<SimulationResult> {
+  if (engine === "client") return runInBrowser(params, options)
 
-  for (let i = 0; i < n; i++) {
-    const idiosyncratic = generateNormalRandom() * Math.sqrt(variance - covariance)
-    result.push(mean + commonFactor + idiosyncratic)
+  try {
+    return await streamSimulation(params, options)
+  } catch (error) {
+    if (!(error instanceof ServerUnavailableError)) throw error
+    return withFallback(await runInBrowser(params, options), "server", error.message)
   }
-
-  return result
 }
 
-// Helper function to calculate realized volatility
-function calculateRealizedVolatility(prices: number[]): number {
-  const returns = []
-  for (let i = 1; i < prices.length; i++) {
-    returns.push(Math.log(prices[i] / prices[i - 1]))
+// Note on a result that the selected engine could not run it. Reasons accumulate when a
+// fallback engine itself fell back.
+export function withFallback(result: SimulationResult, from: SimulationEngine, reason: string): SimulationResult {
+  if (!result.engine) return result
+  const previous = result.engine.fallback
+  return {
+    ...result,
+    engine: { ...result.engine, fallback: { from, reason: previous ? `${reason} ${previous.reason}` : reason } },
   }
-
-  // Calculate standard deviation of returns
-  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length
-  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length
-  const stdDev = Math.sqrt(variance)
-
-  // Annualize (assuming daily data)
-  return stdDev * Math.sqrt(252)
 }
 
-// Helper function to sample a path to reduce data points
-function samplePath(path: number[], targetLength: number): number[] {
-  if (path.length <= targetLength) return path
-
-  const result = []
-  const step = path.length / targetLength
+// Run through the streaming API, passing every simulation to onSimulation as it arrives.
+// Resolves with the complete results.
+export async function streamSimulation(
+  params: SimulationParams,
+  { onProgress, onSimulation, signal }: StreamSimulationOptions = {},
+): Promise<SimulationResult> {
+  let response: Response
+  try {
+    response = await fetch("/api/simulate/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(params),
+      signal,
+    })
+  } catch (error) {
+    if (signal?.aborted) throw new SimulationCancelledError()
+    throw new ServerUnavailableError(`The simulation server could not be reached: ${errorMessage(error)}`)
+  }
 
-  for (let i = 0; i < targetLength; i++) {
-    const index = Math.min(Math.floor(i * step), path.length - 1)
-    result.push(path[index])
+  await checkResponse(response)
+  if (!response.body) {
+    throw new ServerUnavailableError("The simulation server sent an empty response.")
   }
 
-  return result
-}
+  const simulations: SimulationData[] = []
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+  let engine: EngineInfo | null = null
 
-// Generate multivariate normal random variables using Cholesky decomposition
-function generateMultivariateNormal(
-  n: number,
-  mean: number,
-  variance: number,
-  covariance: number,
-  randomGenerator: () => number,
-): number[] {
-  // Create covariance matrix
-  const covMatrix: number[][] = []
-  for (let i = 0; i < n; i++) {
-    covMatrix[i] = []
-    for (let j = 0; j < n; j++) {
-      if (i === j) {
-        covMatrix[i][j] = variance
-      } else {
-        covMatrix[i][j] = covariance
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      // Keep the last, possibly incomplete, line for the next chunk
+      const lines = (buffer + value).split("\n")
+      buffer = lines.pop() ?? ""
+      for (const line of lines) {
+        if (!line) continue
+        const message: SimulationStreamMessage = JSON.parse(line)
+        switch (message.type) {
+          case "start":
+            engine = message.engine
+            break
+          case "progress":
+            onProgress?.(message.completed, message.total)
+            break
+          case "simulation":
+            if (!engine) throw new Error("The simulation stream sent a simulation before naming its engine.")
+            simulations[message.index] = message.simulation
+            onSimulation?.(message.simulation, message.index, engine)
+            break
+          case "error":
+            throw new Error(message.error.error)
+          case "done":
+            return { simulations, params, engine: message.engine }
+        }
       }
     }
+  } catch (error) {
+    if (signal?.aborted) throw new SimulationCancelledError()
+    if (error instanceof TypeError) {
+      // The connection dropped mid-stream
+      throw new ServerUnavailableError(`The simulation stream was interrupted: ${error.message}`)
+    }
+    throw error
   }
 
-  // Simplified Cholesky decomposition for our specific case
-  const L: number[][] = []
-  for (let i = 0; i < n; i++) {
-    L[i] = new Array(n).fill(0)
+  throw new ServerUnavailableError(
+    `The simulation stream ended after ${simulations.length} of ${params.nSimulations} simulations.`,
+  )
+}
+
+// Run the TypeScript engine on the page itself, one simulation at a time so the charts can fill in
+// and the page stays responsive
+export async function runInBrowser(
+  params: SimulationParams,
+  { onProgress, onSimulation, signal }: StreamSimulationOptions = {},
+): Promise<SimulationResult> {
+  const engine: EngineInfo = { engine: "client", version: ENGINE_VERSION, runtime: navigator.userAgent }
+  const simulations: SimulationData[] = []
+
+  onProgress?.(0, params.nSimulations)
+  for (const simulation of engineSimulations(params)) {
+    onSimulation?.(simulation, simulations.length, engine)
+    simulations.push(simulation)
+    onProgress?.(simulations.length, params.nSimulations)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    if (signal?.aborted) throw new SimulationCancelledError()
   }
 
-  // For our case where all diagonal elements are equal and all off-diagonal elements are equal
-  const sqrtVar = Math.sqrt(variance)
-  const sqrtCov = Math.sqrt(Math.max(0, covariance))
+  return { simulations, params, engine }
+}
 
-  L[0][0] = sqrtVar
-  for (let i = 1; i < n; i++) {
-    L[i][0] = sqrtCov
-    L[i][i] = Math.sqrt(Math.max(0, variance - covariance))
-  }
+// Throw the API's error for a failed response. Errors from the engine itself are not a reason to
+// fall back, since the browser would run into them too.
+async function checkResponse(response: Response) {
+  if (response.ok) return
 
-  // Generate independent normal random variables
-  const z = []
-  for (let i = 0; i < n; i++) {
-    let u = 0,
-      v = 0
-    while (u === 0) u = randomGenerator()
-    while (v === 0) v = randomGenerator()
-    z.push(Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v))
+  const body: SimulationErrorResponse | null = await response.json().catch(() => null)
+  if (response.status === 400 && body) {
+    throw new SimulationRequestError(body)
   }
-
-  // Transform to correlated variables: X = μ + L * Z
-  const result = []
-  for (let i = 0; i < n; i++) {
-    let sum = 0
-    for (let j = 0; j <= i; j++) {
-      sum += L[i][j] * z[j]
-    }
-    result.push(mean + sum)
+  if (body?.code === "simulation_failed") {
+    throw new Error(body.error)
   }
-
-  return result
+  throw new ServerUnavailableError(`The simulation server responded with ${response.status} ${response.statusText}.`)
 }
 
-// Calculate realized volatility from log prices
-function calculateRealizedVolatilityFromLogPrices(logPrices: number[]): number {
-  const logReturns = []
-  for (let i = 1; i < logPrices.length; i++) {
-    logReturns.push(logPrices[i] - logPrices[i - 1])
-  }
-
-  // Calculate sample standard deviation
-  const mean = logReturns.reduce((sum, r) => sum + r, 0) / logReturns.length
-  const variance = logReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (logReturns.length - 1)
-  const stdDev = Math.sqrt(variance)
-
-  // Annualize (assuming daily data, 252 trading days per year)
-  return stdDev * Math.sqrt(252)
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
 }
@@ -0,0 +1,30 @@
+// Summary statistics shared by the risk metrics, backtests and calibration
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+// Sample standard deviation
+export function standardDeviation(values: number[]): number {
+  const m = mean(values)
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1))
+}
+
+// Pearson correlation over the first min(x.length, y.length) values; 0 when either series is
+// constant or there are fewer than two values
+export function correlation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length)
+  if (n < 2) return 0
+
+  const meanX = mean(x.slice(0, n))
+  const meanY = mean(y.slice(0, n))
+  let cov = 0,
+    varX = 0,
+    varY = 0
+  for (let i = 0; i < n; i++) {
+    cov += (x[i] - meanX) * (y[i] - meanY)
+    varX += (x[i] - meanX) ** 2
+    varY += (y[i] - meanY) ** 2
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0
+}
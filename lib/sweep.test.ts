@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+
+import { runEngine } from "./engine"
+import { SimulationCancelledError } from "./python-simulation"
+import { defaultFormValues } from "./simulation-schema"
+import { runSweep, type SimulationRunner } from "./sweep"
+import type { SimulationParams } from "./types"
+
+const { engine: _engine, ...defaults } = defaultFormValues
+const base: SimulationParams = {
+  ...defaults,
+  nSimulations: 2,
+  nObservations: 200,
+  nCurrencies: 2,
+  assets: [],
+  events: [
+    { name: "Crash", probability: 0.5, duration: 10, meanShocks: [-0.3, -0.3], decay: "linear" },
+    { name: "Rally", probability: 0.2, start: 50, duration: 5, meanShocks: [0.2, 0.2], decay: "step" },
+  ],
+}
+
+// Runs the engine in-process, keeping the parameters of every grid point
+function recordingRunner(): { run: SimulationRunner; calls: SimulationParams[] } {
+  const calls: SimulationParams[] = []
+  return {
+    calls,
+    run: async (params) => {
+      calls.push(params)
+      return runEngine(params)
+    },
+  }
+}
+
+describe("runSweep", () => {
+  it("applies a swept event probability or duration to every event of the scenario", async () => {
+    const { run, calls } = recordingRunner()
+    const points = await runSweep(
+      base,
+      [
+        { parameter: "extremeEventProbability", min: 0, max: 1, steps: 2 },
+        { parameter: "extremeEventDuration", min: 2, max: 20, steps: 2 },
+      ],
+      run,
+    )
+
+    expect(points).toHaveLength(4)
+    expect(calls.map((params) => params.events?.map((event) => [event.probability, event.duration]))).toEqual([
+      [
+        [0, 2],
+        [0, 2],
+      ],
+      [
+        [1, 2],
+        [1, 2],
+      ],
+      [
+        [0, 20],
+        [0, 20],
+      ],
+      [
+        [1, 20],
+        [1, 20],
+      ],
+    ])
+    // Everything else about the events stays as configured
+    expect(calls[0].events?.map((event) => event.name)).toEqual(["Crash", "Rally"])
+    expect(calls[0].events?.[1].start).toBe(50)
+  })
+
+  it("drops a covariance structure derived from the swept parameter", async () => {
+    const { run, calls } = recordingRunner()
+    const trendStructure = {
+      variances: [0.04, 0.04],
+      correlation: [
+        [1, 0.5],
+        [0.5, 1],
+      ],
+    }
+    await runSweep({ ...base, trendStructure }, [{ parameter: "variance", min: 0.01, max: 0.02, steps: 2 }], run)
+
+    expect(calls.map((params) => params.variance)).toEqual([0.01, 0.02])
+    expect(calls[0].trendStructure).toBeUndefined()
+    expect(calls[0].events).toEqual(base.events)
+  })
+
+  it("names the grid point a run failed at", async () => {
+    const run: SimulationRunner = async (params) => {
+      throw new Error(`Bad duration ${params.events?.[0].duration}`)
+    }
+    await expect(
+      runSweep(base, [{ parameter: "extremeEventDuration", min: 7, max: 9, steps: 2 }], run),
+    ).rejects.toThrow("At Extreme Event Duration = 7: Bad duration 7")
+  })
+
+  it("stops when cancelled", async () => {
+    const controller = new AbortController()
+    const { run, calls } = recordingRunner()
+    const cancelling: SimulationRunner = async (params, signal) => {
+      controller.abort()
+      return run(params, signal)
+    }
+    await expect(
+      runSweep(base, [{ parameter: "extremeEventProbability", min: 0, max: 1, steps: 3 }], cancelling, {
+        signal: controller.signal,
+      }),
+    ).rejects.toBeInstanceOf(SimulationCancelledError)
+    expect(calls).toHaveLength(1)
+  })
+})
@@ -0,0 +1,179 @@
+import { finalReturns, percentile } from "./analytics"
+import { SimulationCancelledError } from "./python-simulation"
+import { drawdown, equalWeightPortfolio } from "./risk"
+import type { SimulationParams, SimulationResult } from "./types"
+
+// Scalar parameters of the sidebar form that can be swept, with the bounds the form accepts
+export const SWEEP_PARAMETERS = {
+  variance: { label: "Trend Variance", min: 0, max: 1, integer: false },
+  covariance: { label: "Trend Covariance", min: 0, max: 1, integer: false },
+  volatility: { label: "Volatility", min: 0.1, max: 20, integer: false },
+  volatilityCovariance: { label: "Volatility Covariance", min: 0.1, max: 10, integer: false },
+  extremeEventProbability: { label: "Extreme Event Probability", min: 0, max: 1, integer: false },
+  extremeEventVariance: { label: "Extreme Event Variance", min: 1, max: 10000, integer: false },
+  extremeEventCovariance: { label: "Extreme Event Covariance", min: 1, max: 10000, integer: false },
+  extremeEventDuration: { label: "Extreme Event Duration", min: 1, max: 100000, integer: true },
+} satisfies Partial<Record<keyof SimulationParams, { label: string; min: number; max: number; integer: boolean }>>
+
+export type SweepParameter = keyof typeof SWEEP_PARAMETERS
+
+// A custom covariance structure replaces the scalar parameters it is derived from, so it has to be
+// dropped for a sweep of those parameters to have any effect
+const DERIVED_STRUCTURES: Record<
+  SweepParameter,
+  "trendStructure" | "volatilityStructure" | "extremeEventStructure" | null
+> = {
+  variance: "trendStructure",
+  covariance: "trendStructure",
+  volatility: "volatilityStructure",
+  volatilityCovariance: "volatilityStructure",
+  extremeEventProbability: null,
+  extremeEventVariance: "extremeEventStructure",
+  extremeEventCovariance: "extremeEventStructure",
+  extremeEventDuration: null,
+}
+
+// An event scenario replaces the single legacy event, so the swept probability or duration is
+// applied to each of its events instead
+const EVENT_FIELDS: Partial<Record<SweepParameter, "probability" | "duration">> = {
+  extremeEventProbability: "probability",
+  extremeEventDuration: "duration",
+}
+
+export interface SweepAxis {
+  parameter: SweepParameter
+  min: number
+  max: number
+  steps: number // Number of grid points, including both ends
+}
+
+// Outcomes of the equal-weight portfolio in every simulation of one grid point
+export interface SweepPoint {
+  x: number
+  y: number | null // Value of the second parameter, null for a one-parameter sweep
+  finalReturns: number[]
+  maxDrawdowns: number[]
+}
+
+export type SweepMetricId = "median-final-return" | "mean-max-drawdown" | "loss-probability"
+
+export const SWEEP_METRICS: Record<SweepMetricId, string> = {
+  "median-final-return": "Median Final Return (%)",
+  "mean-max-drawdown": "Mean Max Drawdown (%)",
+  "loss-probability": "Runs Losing More Than the Threshold (%)",
+}
+
+export type SimulationRunner = (params: SimulationParams, signal?: AbortSignal) => Promise<SimulationResult>
+
+export interface SweepOptions {
+  onProgress?: (completed: number, total: number) => void
+  signal?: AbortSignal
+}
+
+// Evenly spaced grid values from min to max, rounded for integer parameters
+export function axisValues(axis: SweepAxis): number[] {
+  const steps = Math.max(1, Math.floor(axis.steps))
+  const values = Array.from({ length: steps }, (_, i) =>
+    steps === 1 ? axis.min : axis.min + ((axis.max - axis.min) * i) / (steps - 1),
+  )
+  return SWEEP_PARAMETERS[axis.parameter].integer ? values.map(Math.round) : values
+}
+
+// Problems with the axes, or null when the sweep can run
+export function validateSweep(axes: SweepAxis[]): string | null {
+  if (axes.length === 2 && axes[0].parameter === axes[1].parameter) {
+    return "Choose two different parameters."
+  }
+  for (const axis of axes) {
+    const { label, min, max } = SWEEP_PARAMETERS[axis.parameter]
+    if (!(axis.min <= axis.max)) return `${label}: the start of the range must not exceed its end.`
+    if (axis.min < min || axis.max > max) return `${label} must stay between ${min} and ${max}.`
+    if (!Number.isInteger(axis.steps) || axis.steps < 1 || axis.steps > 25) {
+      return `${label}: steps must be a whole number from 1 to 25.`
+    }
+  }
+  return null
+}
+
+// Run the base parameters once per grid point, keeping the seed fixed so points differ only in
+// the swept parameters. Only the portfolio outcomes are kept, not the full results.
+export async function runSweep(
+  base: SimulationParams,
+  axes: SweepAxis[],
+  run: SimulationRunner,
+  { onProgress, signal }: SweepOptions = {},
+): Promise<SweepPoint[]> {
+  const error = validateSweep(axes)
+  if (error) throw new Error(error)
+
+  const [xAxis, yAxis] = axes
+  const xs = axisValues(xAxis)
+  const ys = yAxis ? axisValues(yAxis) : [null]
+  const total = xs.length * ys.length
+  const points: SweepPoint[] = []
+
+  const params: SimulationParams = { ...base }
+  for (const axis of axes) {
+    const structure = DERIVED_STRUCTURES[axis.parameter]
+    if (structure) delete params[structure]
+  }
+
+  onProgress?.(0, total)
+  for (const y of ys) {
+    for (const x of xs) {
+      if (signal?.aborted) throw new SimulationCancelledError()
+
+      let pointParams = withSweptValue(params, xAxis.parameter, x)
+      if (yAxis && y !== null) pointParams = withSweptValue(pointParams, yAxis.parameter, y)
+      let result: SimulationResult
+      try {
+        result = await run(pointParams, signal)
+      } catch (error) {
+        if (error instanceof SimulationCancelledError) throw error
+        // Name the grid point, since a value inside the range can still be invalid with the other parameters
+        const at = axes.map((axis) => `${SWEEP_PARAMETERS[axis.parameter].label} = ${pointParams[axis.parameter]}`)
+        throw new Error(`At ${at.join(", ")}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      points.push({ x, y, ...portfolioOutcomes(result) })
+      onProgress?.(points.length, total)
+    }
+  }
+
+  return points
+}
+
+function withSweptValue(params: SimulationParams, parameter: SweepParameter, value: number): SimulationParams {
+  const field = EVENT_FIELDS[parameter]
+  return {
+    ...params,
+    [parameter]: value,
+    ...(field && params.events && { events: params.events.map((event) => ({ ...event, [field]: value })) }),
+  }
+}
+
+// Final return and maximum drawdown of the equal-weight buy-and-hold portfolio in every simulation
+function portfolioOutcomes(result: SimulationResult): Pick<SweepPoint, "finalReturns" | "maxDrawdowns"> {
+  const nCurrencies = result.simulations[0]?.prices.length ?? 0
+  const currencyReturns = Array.from({ length: nCurrencies }, (_, c) => finalReturns(result, c))
+
+  return {
+    finalReturns: result.simulations.map(
+      (_, i) => currencyReturns.reduce((sum, returns) => sum + returns[i], 0) / nCurrencies,
+    ),
+    maxDrawdowns: result.simulations.map((sim) => drawdown(equalWeightPortfolio(sim.samples)).maxDrawdown),
+  }
+}
+
+// Metric of one grid point in percent; lossThreshold is the loss fraction for "loss-probability"
+export function sweepMetric(point: SweepPoint, metric: SweepMetricId, lossThreshold: number): number {
+  switch (metric) {
+    case "median-final-return": {
+      const sorted = [...point.finalReturns].sort((a, b) => a - b)
+      return percentile(sorted, 50) * 100
+    }
+    case "mean-max-drawdown":
+      return (point.maxDrawdowns.reduce((sum, d) => sum + d, 0) / point.maxDrawdowns.length) * 100
+    case "loss-probability":
+      return (point.finalReturns.filter((r) => r < -lossThreshold).length / point.finalReturns.length) * 100
+  }
+}
@@ -1,29 +1,220 @@
+// Unit of one observation step. Drift and volatility parameters are annualized and
+// scaled to the step with dt = 1 / STEPS_PER_YEAR[timeStep].
+export type TimeStep = "minute" | "hour" | "day"
+
+// Covariance of one correlated draw, given as per-currency variances (in the units the
+// engine draws in) and a correlation matrix with ones on the diagonal
+export interface CorrelationStructure {
+  variances: number[]
+  correlation: number[][]
+}
+
+// A named asset. Overrides replace the values the engine would otherwise sample.
+export interface AssetConfig {
+  name: string
+  initialPrice?: number // Starting price; random around basePrice when omitted
+  drift?: number // Annualized drift, replacing the sampled trend
+  volatility?: number // Annualized volatility in percent, replacing the sampled volatility
+  color?: string // Hex color used in charts and legends
+}
+
+// How an event's shock is spread over its duration; see eventProfile in lib/events.ts
+export type EventDecayShape = "exponential" | "linear" | "step" | "v-shaped"
+
+// A scheduled market event. Every event fires independently with its own probability, and its
+// shocks are drawn around meanShocks with the extreme event covariance.
+export interface EventConfig {
+  name: string
+  probability: number // Chance the event fires in a simulation
+  start?: number // Observation index the event starts at, from 1; random when omitted
+  duration: number // Observations the shock is spread over
+  meanShocks: number[] // Mean total log-return of the event, one entry per currency
+  decay: EventDecayShape
+}
+
+// An event that fired in one simulation
+export interface EventOccurrence {
+  event: number // Index of the event in the run's scenario (see eventConfigs in lib/events.ts)
+  start: number // Observation index the event started at
+  shocks: number[] // Total log-return drawn for each currency
+}
+
+// Stochastic process used for the price paths; see lib/models.ts
+export type ModelId = "gbm" | "random-walk" | "mean-reversion" | "heston" | "garch" | "merton"
+
+export interface SimulationParams {
+  randomSeed: number
+  nSimulations: number
+  nObservations: number
+  timeStep: TimeStep
+  basePrice: number
+  nCurrencies: number
+  transactionFee: number
+  variance: number
+  covariance: number
+  volatility: number
+  volatilityCovariance: number
+  volatilityWindow?: number // Observations in the rolling realized volatility window, 30 days by default
+  extremeEventProbability: number
+  extremeEventVariance: number
+  extremeEventCovariance: number
+  extremeEventDuration: number
+  model?: ModelId // Defaults to geometric Brownian motion
+  modelParams?: Record<string, number> // Model-specific parameters, defaults filled in when missing
+  // Optional full covariance structures; when omitted the scalar variance/covariance
+  // parameters above describe an equicorrelated matrix
+  trendStructure?: CorrelationStructure
+  volatilityStructure?: CorrelationStructure
+  extremeEventStructure?: CorrelationStructure
+  // Scheduled events; when omitted a single event is described by the extremeEvent* parameters above
+  events?: EventConfig[]
+  // One entry per currency; anonymous currencies are used when omitted
+  assets?: AssetConfig[]
+}
+
 export interface SimulationResult {
   simulations: SimulationData[]
-  params: {
-    randomSeed: number
-    nSimulations: number
-    nObservations: number
-    basePrice: number
-    nCurrencies: number
-    transactionFee: number
-    variance: number
-    covariance: number
-    volatility: number
-    volatilityCovariance: number
-    extremeEventProbability: number
-    extremeEventVariance: number
-    extremeEventCovariance: number
-    extremeEventDuration: number
-  }
+  params: SimulationParams
+  engine?: EngineInfo // Missing on results stored before engines were recorded
 }
 
 export interface SimulationData {
-  prices: number[][] // Array of price series for each currency
+  time: number[] // Observation index of every point drawn in the charts, shared by all currencies
+  prices: number[][] // Array of price series for each currency, sampled at `time` for the charts
+  samples: number[][] // Price series for each currency at the evenly spaced analysisIndices, for analysis
   trends: number[] // Trend for each currency
   volatilities: number[] // Volatility for each currency
-  extremeEvent: boolean // Whether an extreme event occurred
-  extremeEventIndex: number | null // Time index when extreme event started
-  realizedVolatility: number // Realized volatility
-  effectiveTrends: number[] // Effective trend for each currency
+  events: EventOccurrence[] // Every event that fired, in scenario order
+  realizedVolatility: number[] // Annualized realized volatility (%) of each currency's full-resolution path
+  rollingVolatility: number[][] // Trailing-window realized volatility (%) per currency at `time`
+  effectiveTrends: number[] // Annualized return for each currency
 }
+
+// Engine that produced a run: the Pyodide worker, or the TypeScript engine in lib/engine.ts
+// running in the API route or in the browser
+export type SimulationEngine = "python" | "server" | "client"
+
+// Which engine produced a result, and which one it stood in for
+export interface EngineInfo {
+  engine: SimulationEngine
+  version: string // ENGINE_VERSION of the engine's code
+  runtime: string // e.g. "Pyodide 0.27.2, Python 3.12.7, NumPy 2.0.2" or "Node.js 20.11.1"
+  fallback?: {
+    from: SimulationEngine // The engine that was selected
+    reason: string // Why it could not run
+  }
+}
+
+// A run kept in the history (lib/run-history.ts). Results are stored separately and loaded on demand.
+export interface RunRecord {
+  id: string
+  label: string
+  createdAt: number // Unix time in milliseconds
+  engine: SimulationEngine
+  pinned: boolean // Pinned runs are never evicted to make room for new ones
+  params: SimulationParams
+  sizeBytes: number // Estimated storage size of the results
+}
+
+export type StrategyId = "buy-and-hold" | "equal-weight" | "momentum" | "pairs-trading"
+
+export interface Trade {
+  time: number // Index of the fill in the simulation's price samples
+  currency: number // Index of the traded currency
+  side: "buy" | "sell"
+  quantity: number // Units traded (always positive)
+  price: number // Fill price
+  fee: number // Transaction fee charged on the fill
+}
+
+export interface BacktestResult {
+  strategy: StrategyId
+  equity: number[] // Portfolio value at every price point
+  trades: Trade[] // Every fill made by the strategy
+  fees: number // Total transaction fees paid
+  netPnl: number // Final equity minus initial capital, after fees
+  returnPct: number // Net PnL as a fraction of initial capital
+}
+
+export interface RiskMetrics {
+  var: number // Historical value at risk of one sampled period's return, as a positive loss fraction
+  cvar: number // Mean loss beyond the VaR (expected shortfall)
+  maxDrawdown: number // Largest peak-to-trough decline, as a fraction of the peak
+  maxDrawdownDuration: number // Longest time in years spent below a previous peak
+  annualizedReturn: number
+  sharpe: number // Annualized excess return per unit of volatility
+  sortino: number // Annualized excess return per unit of downside deviation
+  calmar: number // Annualized return divided by the maximum drawdown
+}
+
+// Median metrics over all simulations, plus VaR/CVaR of the horizon return across them
+export interface AggregateRiskMetrics extends RiskMetrics {
+  monteCarloVar: number
+  monteCarloCvar: number
+}
+
+// One entry per currency followed by the equal-weight portfolio
+export interface RiskReport<T extends RiskMetrics = RiskMetrics> {
+  currencies: T[]
+  portfolio: T
+}
+
+// Structured description of a failed simulation, safe to send between threads
+export interface SimulationErrorInfo {
+  message: string
+  pythonType?: string // Python exception class, e.g. "ValueError", when the error came from Python
+  traceback?: string // Full Python traceback
+}
+
+// A request field rejected by POST /api/simulate
+export interface ParameterIssue {
+  path: string // Dotted field path, e.g. "events.0.duration"
+  message: string
+}
+
+// Body of every error response from POST /api/simulate
+export interface SimulationErrorResponse {
+  code:
+    | "invalid_json"
+    | "invalid_params"
+    | "budget_exceeded"
+    | "simulation_failed"
+    | "job_not_found" // GET or DELETE /api/jobs/:id
+    | "job_not_finished" // GET /api/jobs/:id/result before the job completed
+  error: string
+  issues?: ParameterIssue[] // One entry per invalid field, for invalid_params
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled"
+
+// A simulation run in the background by the server's job queue (lib/job-queue.ts)
+export interface SimulationJob {
+  id: string
+  status: JobStatus
+  params: SimulationParams
+  createdAt: number // Unix time in milliseconds
+  startedAt: number | null
+  finishedAt: number | null // When the job completed, failed or was cancelled
+  completed: number // Simulations finished so far
+  total: number
+  error: string | null // Why the job failed
+}
+
+// Lines of the NDJSON stream from POST /api/simulate/stream, in order: start, progress before the
+// first simulation and after each one, then done. An error ends the stream early.
+export type SimulationStreamMessage =
+  | { type: "start"; engine: EngineInfo }
+  | { type: "progress"; completed: number; total: number }
+  | { type: "simulation"; index: number; simulation: SimulationData }
+  | { type: "done"; engine: EngineInfo }
+  | { type: "error"; error: SimulationErrorResponse }
+
+// Messages sent to the Pyodide worker in lib/python-worker.ts
+export type PythonWorkerRequest = { type: "load" } | { type: "run"; id: number; params: SimulationParams }
+
+// Messages posted back by the worker; id identifies the run they belong to
+export type PythonWorkerResponse =
+  | { type: "ready" }
+  | { type: "progress"; id: number; completed: number; total: number }
+  | { type: "result"; id: number; simulations: SimulationData[]; engine: EngineInfo }
+  | { type: "error"; id: number | null; error: SimulationErrorInfo }
@@ -11,3 +11,14 @@ export function formatNumber(value: number): string {
     minimumFractionDigits: 2,
   }).format(value)
 }
+
+// Save data as a file through a temporary object URL
+export function downloadFile(data: BlobPart, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,239 @@
+"""Benchmark the vectorized Python engine against the scalar loop it replaced.
+
+Runs both implementations with the same seed for every process model, checks that they
+produce the same paths and prints their throughput. Run from the repository root:
+
+    python3 scripts/benchmark-python-engine.py [n_observations]
+
+Merton draws its jump counts and sizes in blocks instead of interleaved with the diffusion
+shocks, so its paths are checked against the old ones only in distribution. npm test runs the
+same checks (lib/engine-parity.test.ts).
+"""
+import os
+import sys
+import time
+
+import numpy as np
+
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), '..', 'lib', 'python'))
+
+from engine import (  # noqa: E402
+    apply_overrides,
+    simulate_event_shocks,
+    simulate_price_paths,
+    simulation_rng,
+)
+
+SEED = 2151
+N_CURRENCIES = 5
+BASE_PRICE = 2000
+STEPS_PER_YEAR = 525600
+EXTREME_EVENT_MEAN = -0.1
+EXTREME_EVENT_DURATION = 1440
+
+MODELS = {
+    'gbm': {},
+    'random-walk': {},
+    'mean-reversion': {'kappa': 5, 'longRunLevel': 1},
+    'heston': {'kappa': 2, 'xi': 0.3, 'rho': -0.7},
+    'garch': {'alpha': 0.05, 'beta': 0.9},
+    'merton': {'lambda': 12, 'jumpMean': -0.02, 'jumpStd': 0.05},
+}
+
+
+def extreme_event_decay(progress):
+    """Relative strength of the legacy extreme event shock, the "exponential" profile in lib/events.ts"""
+    return np.exp(-3 * progress)
+
+
+def legacy_path_stepper(rng, model, model_params, initial_price, mu, sigma, dt):
+    """Scalar stepper for one currency, drawing its normals one at a time"""
+    sqrt_dt = np.sqrt(dt)
+
+    if model == 'gbm':
+        drift = (mu - 0.5 * sigma**2) * dt
+        return lambda price: price * np.exp(drift + sigma * sqrt_dt * rng.normal())
+
+    if model == 'random-walk':
+        # Arithmetic increments scaled to the initial price
+        return lambda price: price + mu * initial_price * dt + sigma * initial_price * sqrt_dt * rng.normal()
+
+    if model == 'mean-reversion':
+        state = {'theta': np.log(initial_price * model_params['longRunLevel'])}
+        def step(price):
+            state['theta'] += mu * dt
+            x = np.log(price)
+            return np.exp(x + model_params['kappa'] * (state['theta'] - x) * dt + sigma * sqrt_dt * rng.normal())
+        return step
+
+    if model == 'heston':
+        kappa, xi, rho = model_params['kappa'], model_params['xi'], model_params['rho']
+        theta = sigma**2
+        state = {'variance': theta}
+        def step(price):
+            z1 = rng.normal()
+            z2 = rho * z1 + np.sqrt(1 - rho**2) * rng.normal()
+            v = max(state['variance'], 0.0)  # Full truncation
+            state['variance'] += kappa * (theta - v) * dt + xi * np.sqrt(v) * sqrt_dt * z2
+            return price * np.exp((mu - 0.5 * v) * dt + np.sqrt(v) * sqrt_dt * z1)
+        return step
+
+    if model == 'garch':
+        alpha, beta = model_params['alpha'], model_params['beta']
+        long_run_variance = sigma**2 * dt
+        omega = long_run_variance * (1 - alpha - beta)
+        state = {'variance': long_run_variance, 'shock': 0.0}
+        def step(price):
+            state['variance'] = omega + alpha * state['shock']**2 + beta * state['variance']
+            state['shock'] = np.sqrt(state['variance']) * rng.normal()
+            return price * np.exp(mu * dt - 0.5 * state['variance'] + state['shock'])
+        return step
+
+    if model == 'merton':
+        lam, jump_mean, jump_std = model_params['lambda'], model_params['jumpMean'], model_params['jumpStd']
+        k = np.exp(jump_mean + 0.5 * jump_std**2) - 1
+        drift = (mu - 0.5 * sigma**2 - lam * k) * dt
+        def step(price):
+            log_return = drift + sigma * sqrt_dt * rng.normal()
+            n_jumps = rng.poisson(lam * dt)
+            if n_jumps > 0:
+                log_return += jump_mean * n_jumps + jump_std * np.sqrt(n_jumps) * rng.normal()
+            return price * np.exp(log_return)
+        return step
+
+    raise ValueError(f"Unknown process model: {model}")
+
+def legacy_simulate_price_paths(rng, n_currencies, n_observations, base_price, initial_price_overrides, trends,
+                                 volatilities,
+                                 extreme_event_prob, extreme_event_mean, extreme_event_cov, extreme_event_duration, dt,
+                                 model, model_params):
+    """The per-observation, per-currency loop the engine used before vectorization"""
+
+    # Initialize price paths
+    prices = np.zeros((n_currencies, n_observations))
+
+    # Set initial prices (random around base price unless overridden)
+    initial_prices = base_price * (0.5 + rng.random(n_currencies))
+    prices[:, 0] = apply_overrides(initial_prices, initial_price_overrides)
+
+    # Determine if extreme event occurs
+    extreme_event = rng.random() < extreme_event_prob
+    extreme_event_start = -1
+    extreme_event_shocks = None
+    decay_total = 0.0
+
+    if extreme_event:
+        extreme_event_start = rng.integers(1, n_observations - extreme_event_duration + 1)
+        extreme_event_shocks = simulate_event_shocks(rng, np.full(n_currencies, extreme_event_mean), extreme_event_cov)
+        # Each shock is the total log-return of the event, spread over its duration by the decay profile
+        decay_total = extreme_event_decay(np.arange(extreme_event_duration) / extreme_event_duration).sum()
+
+    steppers = [
+        legacy_path_stepper(rng, model, model_params, prices[c, 0], trends[c], volatilities[c], dt)
+        for c in range(n_currencies)
+    ]
+
+    # Generate price paths
+    for t in range(1, n_observations):
+        for c in range(n_currencies):
+            price = steppers[c](prices[c, t-1])
+
+            # Add extreme event shock if applicable
+            if extreme_event and extreme_event_start <= t < extreme_event_start + extreme_event_duration:
+                event_progress = (t - extreme_event_start) / extreme_event_duration
+                price *= np.exp(extreme_event_shocks[c] * extreme_event_decay(event_progress) / decay_total)
+
+            # Ensure positive prices
+            prices[c, t] = max(price, 0.01)
+
+    return prices, extreme_event, extreme_event_start
+
+
+def vectorized_simulate_price_paths(rng, n_currencies, n_observations, base_price, initial_price_overrides, trends,
+                                   volatilities,
+                                   extreme_event_prob, extreme_event_mean, extreme_event_cov, extreme_event_duration,
+                                   dt, model, model_params):
+    """The current engine with the legacy extreme event expressed as a one-event scenario"""
+    decay = extreme_event_decay(np.arange(extreme_event_duration) / extreme_event_duration)
+    events = [{
+        'probability': extreme_event_prob,
+        'start': -1,
+        'duration': extreme_event_duration,
+        'mean_shocks': np.full(n_currencies, extreme_event_mean),
+        'profile': decay / decay.sum(),
+    }]
+    prices, _ = simulate_price_paths(
+        rng, n_currencies, n_observations, base_price, initial_price_overrides, trends, volatilities,
+        events, extreme_event_cov, dt, model, model_params
+    )
+    return prices, None, None
+
+
+def ks_statistic(a, b):
+    """Two-sample Kolmogorov-Smirnov statistic: the largest gap between the empirical CDFs"""
+    a, b = np.sort(a.ravel()), np.sort(b.ravel())
+    values = np.concatenate([a, b])
+    cdf_a = np.searchsorted(a, values, side='right') / a.size
+    cdf_b = np.searchsorted(b, values, side='right') / b.size
+    return np.max(np.abs(cdf_a - cdf_b))
+
+
+def ks_critical(n, m):
+    """KS critical value at the 0.1% level for samples of n and m independent values"""
+    return 1.95 * np.sqrt((n + m) / (n * m))
+
+
+def simulate(implementation, model, n_observations, sim):
+    """Run one simulation's price paths with an extreme event guaranteed to fire"""
+    rng = simulation_rng(SEED, sim)
+    trends = rng.normal(0, 0.5, N_CURRENCIES)
+    volatilities = np.abs(rng.normal(0.5, 0.1, N_CURRENCIES))
+    event_cov = np.full((N_CURRENCIES, N_CURRENCIES), 0.045) + np.eye(N_CURRENCIES) * 0.005
+    no_overrides = np.full(N_CURRENCIES, np.nan)
+
+    start = time.perf_counter()
+    prices, _, _ = implementation(
+        rng, N_CURRENCIES, n_observations, BASE_PRICE, no_overrides, trends, volatilities,
+        1.0, EXTREME_EVENT_MEAN, event_cov, EXTREME_EVENT_DURATION, 1 / STEPS_PER_YEAR,
+        model, MODELS[model]
+    )
+    return prices, time.perf_counter() - start
+
+
+def main():
+    n_observations = int(sys.argv[1]) if len(sys.argv) > 1 else 60 * 24 * 7 * 4
+    failures = []
+
+    print(f"{n_observations} observations x {N_CURRENCIES} currencies per run")
+    print(f"{'model':<16}{'loop (obs/s)':>16}{'vectorized (obs/s)':>22}{'speedup':>10}  check")
+
+    for model in MODELS:
+        legacy, legacy_seconds = simulate(legacy_simulate_price_paths, model, n_observations, 0)
+        vectorized, vectorized_seconds = simulate(vectorized_simulate_price_paths, model, n_observations, 0)
+
+        if model == 'merton':
+            # Compare the distribution of log-returns instead of individual draws
+            legacy_returns = np.diff(np.log(legacy), axis=1)
+            vectorized_returns = np.diff(np.log(vectorized), axis=1)
+            critical = ks_critical(legacy_returns.size, vectorized_returns.size)
+            ok = ks_statistic(legacy_returns, vectorized_returns) < critical
+            check = 'same distribution' if ok else 'DIFFERENT DISTRIBUTION'
+        else:
+            ok = np.allclose(legacy, vectorized, rtol=1e-9, atol=0)
+            check = 'identical' if ok else f'MISMATCH (max rel diff {np.max(np.abs(vectorized / legacy - 1)):.2e})'
+
+        if not ok:
+            failures.append(model)
+
+        print(
+            f"{model:<16}{n_observations / legacy_seconds:>16,.0f}{n_observations / vectorized_seconds:>22,.0f}"
+            f"{legacy_seconds / vectorized_seconds:>9.1f}x  {check}"
+        )
+
+    if failures:
+        print(f"Output differs for: {', '.join(failures)}")
+        sys.exit(1)
+
+
+if __name__ == '__main__':
+    main()
@@ -0,0 +1,67 @@
+// Copies the Pyodide runtime from node_modules into public/pyodide and downloads the Python
+// packages the engine loads, so the app can serve everything itself and run offline.
+// Runs before `dev` and `build`; packages already on disk are reused.
+import { createHash } from "node:crypto"
+import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises"
+import { existsSync } from "node:fs"
+import { createRequire } from "node:module"
+import path from "node:path"
+
+// Keep in sync with the loadPackage call in lib/python-worker.ts
+const PACKAGES = ["numpy"]
+
+const RUNTIME_FILES = ["pyodide.js", "pyodide.asm.js", "pyodide.asm.wasm", "python_stdlib.zip", "pyodide-lock.json"]
+
+const require = createRequire(import.meta.url)
+const sourceDir = path.dirname(require.resolve("pyodide/package.json"))
+const targetDir = path.join(process.cwd(), "public", "pyodide")
+
+const lock = JSON.parse(await readFile(path.join(sourceDir, "pyodide-lock.json"), "utf8"))
+const cdnUrl = process.env.PYODIDE_CDN_URL ?? `https://cdn.jsdelivr.net/pyodide/v${lock.info.version}/full/`
+
+await mkdir(targetDir, { recursive: true })
+
+for (const file of RUNTIME_FILES) {
+  await copyFile(path.join(sourceDir, file), path.join(targetDir, file))
+}
+
+// Packages plus everything they depend on, per the lock file
+function resolvePackages(names, seen = new Set()) {
+  for (const name of names) {
+    if (seen.has(name)) continue
+    const entry = lock.packages[name]
+    if (!entry) throw new Error(`Package "${name}" is not part of Pyodide ${lock.info.version}`)
+    seen.add(name)
+    resolvePackages(entry.depends, seen)
+  }
+  return [...seen].map((name) => lock.packages[name])
+}
+
+function sha256(buffer) {
+  return createHash("sha256").update(buffer).digest("hex")
+}
+
+let missing = 0
+for (const entry of resolvePackages(PACKAGES)) {
+  const target = path.join(targetDir, entry.file_name)
+  if (existsSync(target) && sha256(await readFile(target)) === entry.sha256) continue
+
+  try {
+    const response = await fetch(new URL(entry.file_name, cdnUrl))
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const buffer = Buffer.from(await response.arrayBuffer())
+    if (sha256(buffer) !== entry.sha256) throw new Error("checksum mismatch")
+    await writeFile(target, buffer)
+    console.log(`Downloaded ${entry.file_name}`)
+  } catch (error) {
+    // Not fatal: the dashboard falls back to the TypeScript engine when Python cannot start
+    missing++
+    console.warn(`Could not download ${entry.file_name} from ${cdnUrl}: ${error.message}`)
+  }
+}
+
+console.log(
+  missing
+    ? `Pyodide runtime copied to public/pyodide, but ${missing} package(s) are missing`
+    : `Pyodide ${lock.info.version} is ready in public/pyodide`,
+)